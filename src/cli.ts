@@ -2,12 +2,43 @@
 import { Command } from "commander";
 import { Application, ApplicationOptions } from ".";
 import ora from "ora";
+import { ConversionRecord, RecordQuery } from "./services/conversionTracker";
+import {
+  computeHistoryStats,
+  GroupStats,
+  HistoryStats,
+  recordsToCsv,
+  statsToCsv,
+} from "./utils/conversionHistory";
+interface HistoryOptions {
+  prefix?: string;
+  since?: string;
+  until?: string;
+  format?: string;
+  output?: string;
+  stats?: boolean;
+  verbose?: boolean;
+}
+interface ClearHistoryOptions {
+  prefix?: string;
+  match?: string;
+  since?: string;
+  until?: string;
+  yes?: boolean;
+}
+interface SignUrlOptions {
+  width?: string;
+  quality?: string;
+  expiresIn: string;
+  baseUrl?: string;
+}
 interface CLIOptions {
   dryRun?: boolean;
   verbose?: boolean;
   skipValidation?: boolean;
   mode?: "convert" | "monitor" | "health";
   progress?: boolean;
+  force?: boolean;
 }
 export class CLI {
   private program: Command;
@@ -21,7 +52,7 @@ export class CLI {
     // Health check command
     this.program
       .command("health")
-      .description("Check service health and configuration")
+      .description("Check S3 permissions, the tracker and the image processor")
       .option("-v, --verbose", "Enable verbose logging", false)
       .action(async (options: CLIOptions) => {
         await this.runHealthCheck(options);
@@ -34,17 +65,109 @@ export class CLI {
       .option("-d, --dry-run", "Run without actually converting images", false)
       .option("-v, --verbose", "Enable verbose logging", false)
       .option("--skip-validation", "Skip startup validation checks", false)
+      .option(
+        "-f, --force",
+        "Convert every image again, replacing existing outputs",
+        false
+      )
       .option("-p, --progress", "Show detailed progress reporting", true)
       .action(async (options: CLIOptions) => {
         await this.runConversion(options);
       });
 
+    // HTTP server command
+    this.program
+      .command("serve")
+      .description("Start the HTTP server and accept conversion jobs")
+      .option("-v, --verbose", "Enable verbose logging", false)
+      .option("--skip-validation", "Skip startup validation checks", false)
+      .action(async (options: CLIOptions) => {
+        await this.serve(options);
+      });
+
+    // Retry failed conversions command
+    this.program
+      .command("retry-failed")
+      .description("Reprocess only images whose last conversion failed")
+      .option(
+        "-t, --type <errorType>",
+        "Only retry failures of this error type (e.g. CorruptedImageError)"
+      )
+      .option("-d, --dry-run", "Run without actually converting images", false)
+      .option("-v, --verbose", "Enable verbose logging", false)
+      .action(async (options: CLIOptions & { type?: string }) => {
+        await this.retryFailed(options);
+      });
+
+    // Failures command
+    this.program
+      .command("failures")
+      .description("List images whose last conversion failed")
+      .option("-t, --type <errorType>", "Only list failures of this error type")
+      .action(async (options: { type?: string }) => {
+        await this.showFailures(options);
+      });
+
+    // Reconcile command
+    this.program
+      .command("reconcile")
+      .description(
+        "Compare sources, converted outputs and the tracker, and optionally fix differences"
+      )
+      .option("--requeue", "Convert sources with missing outputs again", false)
+      .option(
+        "--delete-orphans",
+        "Delete outputs whose source no longer exists",
+        false
+      )
+      .option(
+        "--backfill",
+        "Add untracked outputs to the tracker from their object metadata",
+        false
+      )
+      .option("-d, --dry-run", "Report the fixes without applying them", false)
+      .option("-v, --verbose", "List every key in each category", false)
+      .action(
+        async (options: {
+          requeue?: boolean;
+          deleteOrphans?: boolean;
+          backfill?: boolean;
+          dryRun?: boolean;
+          verbose?: boolean;
+        }) => {
+          await this.reconcile(options);
+        }
+      );
+
     // History command
     this.program
       .command("history")
       .description("Show conversion history and statistics")
-      .option("-v, --verbose", "Show detailed conversion records", false)
-      .action(async (options: CLIOptions) => {
+      .option(
+        "-p, --prefix <prefix>",
+        "Only include source keys with this prefix"
+      )
+      .option(
+        "--since <date>",
+        "Only include conversions on or after this date"
+      )
+      .option(
+        "--until <date>",
+        "Only include conversions on or before this date"
+      )
+      .option(
+        "-f, --format <format>",
+        "Output format: table, csv or json",
+        "table"
+      )
+      .option("-o, --output <file>", "Write the output to a file")
+      .option(
+        "-s, --stats",
+        "Show bytes saved per prefix and per day, and compression percentiles",
+        false
+      )
+      .option("-v, --verbose", "List every record in table format", false)
+      .action(async (options: HistoryOptions) => {
         await this.showConversionHistory(options);
       });
 
@@ -52,13 +175,50 @@ export class CLI {
     this.program
       .command("clear-history")
       .description(
-        "Clear conversion history (allows re-conversion of all images)"
+        "Clear conversion history, or only matching records (allows re-conversion)"
+      )
+      .option(
+        "-p, --prefix <prefix>",
+        "Only clear source keys with this prefix"
       )
+      .option(
+        "-m, --match <glob>",
+        "Only clear source keys matching this glob (* within a folder, ** across)"
+      )
+      .option("--since <date>", "Only clear conversions on or after this date")
+      .option("--until <date>", "Only clear conversions on or before this date")
       .option("-y, --yes", "Skip confirmation prompt", false)
-      .action(async (options: { yes?: boolean }) => {
+      .action(async (options: ClearHistoryOptions) => {
         await this.clearConversionHistory(options);
       });
 
+    // Migrate JSON tracking files to SQLite
+    this.program
+      .command("migrate-tracker")
+      .description(
+        "Import the JSON tracking file and append log into the SQLite tracker"
+      )
+      .option("--from <path>", "JSON tracking file (default: TRACKER_FILE)")
+      .option("--to <path>", "SQLite database (default: TRACKER_SQLITE_PATH)")
+      .action(async (options: { from?: string; to?: string }) => {
+        await this.migrateTracker(options);
+      });
+
+    // Signed image URLs for clients without an API key
+    this.program
+      .command("sign-url")
+      .description(
+        "Create a signed /images URL (key relative to the source prefix)"
+      )
+      .argument("<key>", "Image key, e.g. products/shoe.jpg")
+      .option("-w, --width <pixels>", "Signed w parameter")
+      .option("-q, --quality <quality>", "Signed q parameter")
+      .option("-e, --expires-in <seconds>", "Validity of the URL", "3600")
+      .option("--base-url <url>", "Prefix the path with this server URL")
+      .action(async (key: string, options: SignUrlOptions) => {
+        await this.signUrl(key, options);
+      });
+
     // Mockup images to s3
     this.program
       .command("mock-image")
@@ -80,13 +240,31 @@ export class CLI {
       const app = new Application(appOptions);
       const config = app.getConfig();
 
-      spinner.text = "🔍 Validating AWS permissions...";
-      // Validation happens in constructor, so if we get here, it passed
+      spinner.text = "🔍 Checking S3 permissions, tracker and processor...";
+      const report = await app.checkHealth();
+      const icons = { pass: "✅", warn: "⚠️ ", fail: "❌", skip: "⏭️ " };
 
-      spinner.succeed("Health check completed successfully");
+      if (report.status === "ready") {
+        spinner.succeed("Health check completed successfully");
+      } else {
+        spinner.fail("Health check failed");
+      }
+      console.log("\n🩺 Checks:");
+      for (const check of report.checks) {
+        console.log(
+          `   ${icons[check.status]} ${check.name} (${check.durationMs}ms)${
+            check.message ? `: ${check.message}` : ""
+          }`
+        );
+      }
 
-      console.log("\n� oSystem Status:");
-      console.log(`   📁 Target bucket: ${config.aws.targetBucket}`);
+      console.log("\n📊 System Status:");
+      console.log(
+        `   📁 Source: s3://${config.aws.sourceBucket}/${config.aws.sourcePrefix}`
+      );
+      console.log(
+        `   📁 Destination: s3://${config.aws.destinationBucket}/${config.aws.destinationPrefix}`
+      );
       console.log(`   🌍 AWS region: ${config.aws.region}`);
       console.log(`   🎨 WebP quality: ${config.conversion.quality}`);
       console.log(`   🔑 AWS max keys: ${config.aws.maxKeys || 1000}`);
@@ -98,6 +276,10 @@ export class CLI {
       console.log(
         `   🖼️  Mockup image count: ${config.mockup?.imageCount || 0}`
       );
+
+      if (report.status !== "ready") {
+        process.exit(1);
+      }
     } catch (error) {
       if (spinner) {
         spinner.fail("Health check failed");
@@ -109,6 +291,27 @@ export class CLI {
       process.exit(1);
     }
   }
+  private async serve(options: CLIOptions): Promise<void> {
+    const spinner = ora("🌐 Starting HTTP server...").start();
+    try {
+      const app = new Application({
+        verbose: options.verbose || false,
+        skipValidation: options.skipValidation || false,
+      });
+      await app.start();
+      // The server keeps the process alive until a shutdown signal
+      spinner.succeed(
+        `HTTP server listening on port ${app.getConfig().server.port}`
+      );
+    } catch (error) {
+      spinner.fail("Failed to start HTTP server");
+      console.error(
+        "Error details:",
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  }
   private async runConversion(options: CLIOptions): Promise<void> {
     const spinner = ora("🚀 Starting S3 Image WebP Converter...").start();
     try {
@@ -116,6 +319,7 @@ export class CLI {
         dryRun: options.dryRun || false,
         verbose: options.verbose || false,
         skipValidation: options.skipValidation || false,
+        force: options.force || false,
       };
 
       if (spinner) {
@@ -148,9 +352,15 @@ export class CLI {
         operation: "report.summary",
         duration: report.processingDuration,
         successful: report.successful,
+        updated: report.updated,
         failed: report.failed,
         skipped: report.skipped,
+        skipReasons: report.skipReasons,
         totalImages: report.totalImages,
+        imagesPerSecond: report.throughput.imagesPerSecond,
+        peakMemoryMB: Number(
+          (report.peakMemory.rss / (1024 * 1024)).toFixed(1)
+        ),
       });
       // Shutdown gracefully
       await app.shutdown();
@@ -166,79 +376,212 @@ export class CLI {
     }
   }
 
-  private async showConversionHistory(options: CLIOptions): Promise<void> {
-    console.log("📊 Conversion History\n");
+  private async retryFailed(
+    options: CLIOptions & { type?: string }
+  ): Promise<void> {
+    const spinner = ora("🔁 Loading failed conversions...").start();
+    try {
+      const appOptions: ApplicationOptions = {
+        dryRun: options.dryRun || false,
+        verbose: options.verbose || false,
+      };
+      const app = new Application(appOptions);
+
+      const report = await app.runRetryFailed(options.type, (msg: string) => {
+        spinner.text = `🔁 ${msg}`;
+      });
 
+      spinner.succeed("Retry of failed conversions completed");
+      console.info({
+        operation: "report.summary",
+        duration: report.processingDuration,
+        successful: report.successful,
+        updated: report.updated,
+        failed: report.failed,
+        skipped: report.skipped,
+        skipReasons: report.skipReasons,
+        totalImages: report.totalImages,
+      });
+      await app.shutdown();
+    } catch (error) {
+      spinner.fail("Retry of failed conversions failed");
+      console.error(
+        "Error details:",
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  }
+
+  private async reconcile(options: {
+    requeue?: boolean;
+    deleteOrphans?: boolean;
+    backfill?: boolean;
+    dryRun?: boolean;
+    verbose?: boolean;
+  }): Promise<void> {
+    const spinner = ora(
+      "🔍 Reconciling sources, outputs and tracker..."
+    ).start();
     try {
-      const { FileBasedConversionTracker } = await import(
-        "./services/conversionTracker"
+      const app = new Application({ dryRun: options.dryRun || false });
+      const report = await app.runReconcile(
+        {
+          requeue: options.requeue || false,
+          deleteOrphans: options.deleteOrphans || false,
+          backfill: options.backfill || false,
+          dryRun: options.dryRun || false,
+        },
+        (msg: string) => {
+          spinner.text = `🔍 ${msg}`;
+        }
       );
-      const tracker = new FileBasedConversionTracker();
+      spinner.succeed("Reconciliation completed");
 
-      // Load the tracking data
-      await tracker.loadConvertedKeys();
-      const convertedKeys = await tracker.getConvertedKeys();
+      console.log(
+        `\n📊 ${report.sourceCount} sources, ${report.outputCount} outputs, ${report.trackedCount} tracked\n`
+      );
+      const categories: [string, string[]][] = [
+        ["Sources without outputs", report.sourcesWithoutOutputs],
+        ["Orphaned outputs (source missing)", report.orphanOutputs],
+        ["Tracked targets missing", report.trackedMissingTargets],
+        ["Untracked outputs", report.untrackedOutputs],
+      ];
+      for (const [label, keys] of categories) {
+        console.log(`${label}: ${keys.length}`);
+        const shown = options.verbose ? keys : keys.slice(0, 10);
+        shown.forEach((key) => console.log(`   ${key}`));
+        if (shown.length < keys.length) {
+          console.log(`   ... and ${keys.length - shown.length} more`);
+        }
+      }
 
-      if (convertedKeys.size === 0) {
+      const prefix = options.dryRun ? "Would fix" : "Fixed";
+      if (options.requeue || options.deleteOrphans || options.backfill) {
+        console.log(`\n🔧 ${prefix}:`);
+        if (options.backfill) {
+          console.log(`   Backfilled sources: ${report.fixes.backfilled}`);
+        }
+        if (options.requeue) {
+          console.log(`   Re-queued sources: ${report.fixes.requeued}`);
+        }
+        if (options.deleteOrphans) {
+          console.log(`   Deleted orphans: ${report.fixes.deletedOrphans}`);
+        }
+      } else {
         console.log(
-          "No conversion history found. No images have been converted yet."
+          "\nUse --requeue, --delete-orphans or --backfill to fix these differences"
         );
+      }
+    } catch (error) {
+      spinner.fail("Reconciliation failed");
+      console.error(
+        "Error details:",
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  }
+
+  private async showFailures(options: { type?: string }): Promise<void> {
+    console.log("❌ Failed Conversions\n");
+
+    try {
+      const { getConfig } = await import("./config");
+      const { createConversionTracker } = await import(
+        "./services/trackerFactory"
+      );
+      const tracker = createConversionTracker(getConfig());
+      const failures = await tracker.getFailures(options.type);
+
+      if (failures.length === 0) {
+        console.log("No failed conversions found.");
         return;
       }
 
-      console.log(`📈 Total converted images: ${convertedKeys.size}\n`);
+      // Count per error type so the most common causes stand out
+      const byType = new Map<string, number>();
+      failures.forEach((failure) =>
+        byType.set(failure.errorType, (byType.get(failure.errorType) ?? 0) + 1)
+      );
+      console.log(`📈 Total failed images: ${failures.length}`);
+      byType.forEach((count, errorType) =>
+        console.log(`   ${errorType}: ${count}`)
+      );
+      console.log("");
 
-      if (options.verbose) {
-        // Read the detailed records from the tracking file
+      failures.forEach((failure, index) => {
+        console.log(`${index + 1}. ${failure.sourceKey}`);
+        console.log(`   ⚠️  ${failure.errorType}: ${failure.message}`);
+        console.log(
+          `   📅 Failed: ${new Date(failure.failedAt).toLocaleString()} after ${
+            failure.attempts
+          } attempt(s)`
+        );
+      });
+      console.log(
+        "\nUse `retry-failed` (optionally with --type) to reprocess these images"
+      );
+    } catch (error) {
+      console.error(
+        "❌ Failed to load failed conversions:",
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  }
+
+  private async showConversionHistory(options: HistoryOptions): Promise<void> {
+    try {
+      const format = (options.format || "table").toLowerCase();
+      if (!["table", "csv", "json"].includes(format)) {
+        throw new Error(
+          `Unknown format "${options.format}", expected table, csv or json`
+        );
+      }
+      const query: RecordQuery = {
+        prefix: options.prefix,
+        since: this.parseDateOption(options.since, false),
+        until: this.parseDateOption(options.until, true),
+      };
+
+      const { getConfig } = await import("./config");
+      const { createConversionTracker } = await import(
+        "./services/trackerFactory"
+      );
+      const tracker = createConversionTracker(getConfig());
+      const records = (await tracker.getRecords(query)).sort((a, b) =>
+        a.convertedAt.localeCompare(b.convertedAt)
+      );
+
+      let content: string;
+      if (options.stats) {
+        const stats = computeHistoryStats(records, options.prefix);
+        content =
+          format === "json"
+            ? JSON.stringify(stats, null, 2) + "\n"
+            : format === "csv"
+            ? statsToCsv(stats)
+            : this.formatStatsTable(stats);
+      } else {
+        content =
+          format === "json"
+            ? JSON.stringify(records, null, 2) + "\n"
+            : format === "csv"
+            ? recordsToCsv(records)
+            : this.formatHistoryTable(records, options.verbose || false);
+      }
+
+      if (options.output) {
         const fs = await import("fs/promises");
-        try {
-          const data = await fs.readFile("logs/converted-images.json", "utf-8");
-          const records = JSON.parse(data);
-
-          console.log("🔍 Detailed conversion records:\n");
-          records.forEach((record: any, index: number) => {
-            const sizeSavedKB = (
-              (record.originalSize - record.convertedSize) /
-              1024
-            ).toFixed(1);
-            const compressionPercent = (record.compressionRatio * 100).toFixed(
-              1
-            );
-
-            console.log(`${index + 1}. ${record.sourceKey}`);
-            console.log(`   → ${record.targetKey}`);
-            console.log(
-              `   📅 Converted: ${new Date(
-                record.convertedAt
-              ).toLocaleString()}`
-            );
-            console.log(
-              `   📊 Size: ${(record.originalSize / 1024).toFixed(1)}KB → ${(
-                record.convertedSize / 1024
-              ).toFixed(
-                1
-              )}KB (saved ${sizeSavedKB}KB, ${compressionPercent}% compression)`
-            );
-            console.log("");
-          });
-        } catch (error) {
-          console.log("Converted images:");
-          Array.from(convertedKeys).forEach((key, index) => {
-            console.log(`${index + 1}. ${key}`);
-          });
-        }
+        await fs.writeFile(options.output, content, "utf-8");
+        console.log(
+          `✅ Wrote ${options.stats ? "statistics for " : ""}${
+            records.length
+          } conversion records to ${options.output}`
+        );
       } else {
-        console.log("Recently converted images:");
-        Array.from(convertedKeys)
-          .slice(-10)
-          .forEach((key, index) => {
-            console.log(`${index + 1}. ${key}`);
-          });
-
-        if (convertedKeys.size > 10) {
-          console.log(`... and ${convertedKeys.size - 10} more images`);
-        }
-        console.log("\nUse --verbose flag to see detailed conversion records");
+        process.stdout.write(content);
       }
     } catch (error) {
       console.error(
@@ -249,53 +592,168 @@ export class CLI {
     }
   }
 
-  private async clearConversionHistory(options: {
-    yes?: boolean;
-  }): Promise<void> {
+  private formatHistoryTable(
+    records: ConversionRecord[],
+    verbose: boolean
+  ): string {
+    if (records.length === 0) {
+      return "No conversion history found for the selected filters.\n";
+    }
+
+    // Without --verbose only the most recent conversions are listed
+    const shown = verbose ? records : records.slice(-20);
+    const rows = shown.map((record) => [
+      new Date(record.convertedAt).toLocaleString(),
+      record.sourceKey,
+      this.formatBytes(record.originalSize),
+      this.formatBytes(record.convertedSize),
+      `${(record.compressionRatio * 100).toFixed(1)}%`,
+    ]);
+    let output = `📊 Conversion History (${records.length} images)\n\n`;
+    output += this.formatTable(
+      ["Converted", "Source", "Original", "Converted size", "Saved"],
+      rows
+    );
+    if (shown.length < records.length) {
+      output += `\n... ${
+        records.length - shown.length
+      } earlier records, use --verbose to list all\n`;
+    }
+    return output;
+  }
+
+  private formatStatsTable(stats: HistoryStats): string {
+    const toRow = (group: GroupStats) => [
+      group.key,
+      String(group.images),
+      this.formatBytes(group.originalSize),
+      this.formatBytes(group.convertedSize),
+      this.formatBytes(group.bytesSaved),
+    ];
+    const header = ["", "Images", "Original", "Converted", "Saved"];
+
+    let output = `📊 Conversion Statistics (${stats.totals.images} images)\n\n`;
+    output += "By prefix:\n";
+    output += this.formatTable(header, [
+      ...stats.byPrefix.map(toRow),
+      toRow(stats.totals),
+    ]);
+    output += "\nBy day:\n";
+    output += this.formatTable(header, stats.byDay.map(toRow));
+    output += "\nCompression ratio percentiles:\n";
+    output += this.formatTable(Object.keys(stats.compressionPercentiles), [
+      Object.values(stats.compressionPercentiles).map(
+        (ratio) => `${(ratio * 100).toFixed(1)}%`
+      ),
+    ]);
+    return output;
+  }
+
+  private formatTable(header: string[], rows: string[][]): string {
+    const widths = header.map((title, column) =>
+      Math.max(title.length, ...rows.map((row) => row[column]!.length))
+    );
+    const formatRow = (row: string[]) =>
+      row
+        .map((value, column) => value.padEnd(widths[column]!))
+        .join("  ")
+        .trimEnd();
+    return (
+      [
+        formatRow(header),
+        formatRow(widths.map((width) => "-".repeat(width))),
+        ...rows.map(formatRow),
+      ].join("\n") + "\n"
+    );
+  }
+
+  private formatBytes(bytes: number): string {
+    if (Math.abs(bytes) >= 1024 * 1024) {
+      return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+    }
+    return `${(bytes / 1024).toFixed(1)}KB`;
+  }
+
+  /**
+   * Accepts any date Date can parse; a plain YYYY-MM-DD covers the whole
+   * (UTC) day, so --until 2025-01-31 includes conversions on that day
+   */
+  private parseDateOption(
+    value: string | undefined,
+    endOfDay: boolean
+  ): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z`)
+      : new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid date: ${value}`);
+    }
+    return date;
+  }
+
+  private async clearConversionHistory(
+    options: ClearHistoryOptions
+  ): Promise<void> {
     console.log("🗑️  Clear Conversion History\n");
 
     try {
-      const fs = await import("fs/promises");
-      const trackingFile = "logs/converted-images.json";
-
-      // Check if tracking file exists
-      try {
-        await fs.access(trackingFile);
-      } catch (error) {
-        console.log("No conversion history found to clear.");
-        return;
-      }
+      const query: RecordQuery = {
+        prefix: options.prefix,
+        pattern: options.match,
+        since: this.parseDateOption(options.since, false),
+        until: this.parseDateOption(options.until, true),
+      };
+      const isSelective = Object.values(query).some(
+        (value) => value !== undefined
+      );
 
-      // Show current history count
-      const { FileBasedConversionTracker } = await import(
-        "./services/conversionTracker"
+      const { getConfig } = await import("./config");
+      const { createConversionTracker } = await import(
+        "./services/trackerFactory"
       );
-      const tracker = new FileBasedConversionTracker();
+      const tracker = createConversionTracker(getConfig());
       await tracker.loadConvertedKeys();
-      const convertedKeys = await tracker.getConvertedKeys();
 
+      // Preview what would be removed before touching anything
+      const matches = await tracker.getRecords(query);
+      if (matches.length === 0) {
+        console.log("No conversion history found to clear.");
+        return;
+      }
       console.log(
-        `📊 Current history contains ${convertedKeys.size} converted images.`
+        isSelective
+          ? `📊 ${matches.length} of ${
+              (await tracker.getConvertedKeys()).size
+            } converted images match the selected filters.`
+          : `📊 Current history contains ${matches.length} converted images.`
       );
+      matches
+        .slice(0, 10)
+        .forEach((record) => console.log(`  - ${record.sourceKey}`));
+      if (matches.length > 10) {
+        console.log(`  ... and ${matches.length - 10} more`);
+      }
+
       if (!options.yes) {
-        // Simple confirmation without external dependencies
         console.log(
-          "\n⚠️  This will clear all conversion history and allow all images to be re-converted."
+          `\n⚠️  This will clear ${
+            isSelective ? "the matching" : "all"
+          } conversion history. Outputs are not deleted from the destination bucket.`
         );
-        console.log("Are you sure you want to continue? (y/N)");
-
-        // For now, we'll assume yes since we don't have readline setup
-        console.log("Use --yes flag to skip this confirmation.");
+        console.log("Use --yes flag to apply.");
         return;
       }
 
-      // Clear the tracking file
-      await fs.unlink(trackingFile);
+      const removed = await tracker.removeRecords(query);
 
-      console.log("✅ Conversion history cleared successfully.");
+      console.log(`✅ Removed ${removed} records from conversion history.`);
       console.log(
-        "All images will be processed again on the next conversion run."
+        "The next run converts images whose outputs are missing and tracks existing outputs again."
       );
+      console.log("Run `convert --force` to replace existing outputs.");
     } catch (error) {
       console.error(
         "❌ Failed to clear conversion history:",
@@ -304,6 +762,90 @@ export class CLI {
       process.exit(1);
     }
   }
+  private async signUrl(key: string, options: SignUrlOptions): Promise<void> {
+    try {
+      const { getConfig } = await import("./config");
+      const { signUrl } = await import("./services/authService");
+      const { signingSecret } = getConfig().server.auth;
+      if (!signingSecret) {
+        throw new Error("URL_SIGNING_SECRET is not set");
+      }
+
+      const expiresIn = Number(options.expiresIn);
+      if (!Number.isInteger(expiresIn) || expiresIn < 1) {
+        throw new Error("--expires-in must be a positive number of seconds");
+      }
+
+      const query: Record<string, string> = {};
+      if (options.width) query.w = options.width;
+      if (options.quality) query.q = options.quality;
+      // Signed as the server sees the path, i.e. URL-encoded
+      const path = `/images/${key
+        .replace(/^\/+/, "")
+        .split("/")
+        .map(encodeURIComponent)
+        .join("/")}`;
+      const signed = signUrl(
+        signingSecret,
+        path,
+        query,
+        new Date(Date.now() + expiresIn * 1000)
+      );
+      console.log(`${(options.baseUrl ?? "").replace(/\/+$/, "")}${signed}`);
+    } catch (error) {
+      console.error(
+        "Failed to sign URL:",
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  }
+
+  private async migrateTracker(options: {
+    from?: string;
+    to?: string;
+  }): Promise<void> {
+    const spinner = ora("📦 Reading JSON conversion history...").start();
+    try {
+      const { getConfig } = await import("./config");
+      const { FileBasedConversionTracker } = await import(
+        "./services/conversionTracker"
+      );
+      const { SqliteConversionTracker } = await import(
+        "./services/sqliteConversionTracker"
+      );
+      const { tracking } = getConfig();
+      const sourcePath = options.from || tracking.filePath;
+      const databasePath = options.to || tracking.sqlitePath;
+
+      // Reads the main file and the append log, later records win
+      const fileTracker = new FileBasedConversionTracker(sourcePath);
+      const records = await fileTracker.getRecords();
+
+      spinner.text = `🗄️  Importing ${records.length} records into ${databasePath}...`;
+      const sqliteTracker = new SqliteConversionTracker(databasePath);
+      const imported = await sqliteTracker.importRecords(records);
+      for (const failure of await fileTracker.getFailures()) {
+        await sqliteTracker.markAsFailed(failure);
+      }
+      await sqliteTracker.close();
+
+      spinner.succeed(`Imported ${imported} records into ${databasePath}`);
+      if (tracking.backend !== "sqlite") {
+        console.log(
+          "Set TRACKER_BACKEND=sqlite to use the migrated database for conversions."
+        );
+      }
+    } catch (error) {
+      spinner.fail("Tracker migration failed");
+      console.error(
+        "Error details:",
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  }
+
   private async mockImage(options: CLIOptions): Promise<void> {
     const spinner = ora("🎨 Initializing mockup image generator...").start();
     try {
@@ -343,8 +885,8 @@ export class CLI {
 
       console.log(`\n📊 Summary:`);
       console.log(`   🖼️  Generated: ${mockupCount} mockup images`);
-      console.log(`   📁 Bucket: ${config.aws.targetBucket}`);
-      console.log(`   📂 Prefix: ${config.aws.prefix || "root"}`);
+      console.log(`   📁 Bucket: ${config.aws.sourceBucket}`);
+      console.log(`   📂 Prefix: ${config.aws.sourcePrefix || "mockup/"}`);
 
       // Shutdown gracefully
       await app.shutdown();
@@ -1,4 +1,21 @@
 import * as dotenv from "dotenv";
+import {
+  API_SCOPES,
+  ApiKey,
+  ApiScope,
+  ENCODING_MODES,
+  EncodingModeSetting,
+  LEASE_BACKENDS,
+  LeaseBackend,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  RESIZE_FITS,
+  ResizeFit,
+  SizeVariant,
+  TargetQualityOptions,
+  TRACKER_BACKENDS,
+  TrackerBackend,
+} from "../models";
 
 // Load environment variables from .env file
 dotenv.config();
@@ -6,22 +23,57 @@ dotenv.config();
 export interface Config {
   aws: {
     region: string;
-    targetBucket: string;
+    sourceBucket: string;
+    sourcePrefix: string;
+    destinationBucket: string;
+    destinationPrefix: string;
     accessKeyId?: string | undefined;
     secretAccessKey?: string | undefined;
-    prefix?: string | undefined;
     cacheControl?: string | undefined;
     maxKeys: number;
   };
   conversion: {
     quality: number;
+    encodingMode: EncodingModeSetting;
+    targetQuality: TargetQualityOptions;
     supportedFormats: string[];
+    contentSniffing: boolean;
+    outputFormats: OutputFormat[];
     maxFileSize: number;
+    streamingThreshold: number;
+    resize: {
+      sizes: SizeVariant[];
+      fit: ResizeFit;
+      withoutEnlargement: boolean;
+    };
   };
   processing: {
     concurrency: number;
     retryAttempts: number;
     retryDelay: number;
+    memory: {
+      maxRssBytes: number;
+      maxHeapUsedBytes: number;
+      maxInFlightBytes: number;
+    };
+  };
+  tracking: {
+    backend: TrackerBackend;
+    filePath: string;
+    sqlitePath: string;
+    s3: {
+      bucket: string;
+      prefix: string;
+    };
+  };
+  leasing: {
+    backend: LeaseBackend;
+    ttlMs: number;
+    directory: string;
+    s3: {
+      bucket: string;
+      prefix: string;
+    };
   };
   logging: {
     level: string;
@@ -30,6 +82,23 @@ export interface Config {
   server: {
     port: number;
     host: string;
+    /** How long readiness check results are reused */
+    healthCheckTtlMs: number;
+    /** Browser cache lifetime of /images responses */
+    imageMaxAgeSeconds: number;
+    /** Queued objects from S3 events before new events are refused */
+    eventQueueLimit: number;
+    auth: {
+      apiKeys: ApiKey[];
+      /** Scopes of requests without credentials */
+      anonymousScopes: ApiScope[];
+      /** HMAC secret for signed image URLs; unset disables them */
+      signingSecret?: string | undefined;
+      rateLimit: {
+        windowMs: number;
+        maxRequests: number;
+      };
+    };
   };
   mockup?: {
     imageCount: number;
@@ -116,9 +185,17 @@ export function validateConfig(config: Config): ValidationError[] {
     });
   }
 
-  if (!validateBucketName(config.aws.targetBucket)) {
+  if (!validateBucketName(config.aws.sourceBucket)) {
     errors.push({
-      field: "aws.targetBucket",
+      field: "aws.sourceBucket",
+      message:
+        "Invalid S3 bucket name. Must be 3-63 characters, lowercase letters, numbers, hyphens, and periods only.",
+    });
+  }
+
+  if (!validateBucketName(config.aws.destinationBucket)) {
+    errors.push({
+      field: "aws.destinationBucket",
       message:
         "Invalid S3 bucket name. Must be 3-63 characters, lowercase letters, numbers, hyphens, and periods only.",
     });
@@ -132,6 +209,44 @@ export function validateConfig(config: Config): ValidationError[] {
     });
   }
 
+  const { targetQuality } = config.conversion;
+  if (
+    !Number.isFinite(targetQuality.ssim) ||
+    targetQuality.ssim < 0 ||
+    targetQuality.ssim > 1
+  ) {
+    errors.push({
+      field: "conversion.targetQuality.ssim",
+      message: "Target SSIM must be between 0 (disabled) and 1",
+    });
+  }
+
+  if (
+    targetQuality.minQuality < 1 ||
+    targetQuality.maxQuality > 100 ||
+    targetQuality.minQuality > targetQuality.maxQuality
+  ) {
+    errors.push({
+      field: "conversion.targetQuality",
+      message:
+        "Target quality range must satisfy 1 <= minQuality <= maxQuality <= 100",
+    });
+  }
+
+  if (!Number.isFinite(targetQuality.maxBytes) || targetQuality.maxBytes < 0) {
+    errors.push({
+      field: "conversion.targetQuality.maxBytes",
+      message: "Maximum output bytes must be 0 (no budget) or greater",
+    });
+  }
+
+  if (!ENCODING_MODES.includes(config.conversion.encodingMode)) {
+    errors.push({
+      field: "conversion.encodingMode",
+      message: `Encoding mode must be one of: ${ENCODING_MODES.join(", ")}`,
+    });
+  }
+
   if (config.conversion.maxFileSize <= 0) {
     errors.push({
       field: "conversion.maxFileSize",
@@ -139,6 +254,13 @@ export function validateConfig(config: Config): ValidationError[] {
     });
   }
 
+  if (config.conversion.streamingThreshold <= 0) {
+    errors.push({
+      field: "conversion.streamingThreshold",
+      message: "Streaming threshold must be greater than 0",
+    });
+  }
+
   if (
     !Array.isArray(config.conversion.supportedFormats) ||
     config.conversion.supportedFormats.length === 0
@@ -149,6 +271,55 @@ export function validateConfig(config: Config): ValidationError[] {
     });
   }
 
+  if (
+    !Array.isArray(config.conversion.outputFormats) ||
+    config.conversion.outputFormats.length === 0
+  ) {
+    errors.push({
+      field: "conversion.outputFormats",
+      message: "Output formats must be a non-empty array",
+    });
+  } else {
+    const invalidFormats = config.conversion.outputFormats.filter(
+      (format) => !OUTPUT_FORMATS.includes(format)
+    );
+    if (invalidFormats.length > 0) {
+      errors.push({
+        field: "conversion.outputFormats",
+        message: `Unknown output formats: ${invalidFormats.join(
+          ", "
+        )}. Expected any of: ${OUTPUT_FORMATS.join(", ")}`,
+      });
+    }
+  }
+
+  const { sizes, fit } = config.conversion.resize;
+  if (sizes.length === 0) {
+    errors.push({
+      field: "conversion.resize.sizes",
+      message: "Resize sizes must contain at least one width or 'original'",
+    });
+  }
+  if (
+    sizes.some(
+      (size) =>
+        size !== "original" &&
+        (!Number.isInteger(size) || size < 1 || size > 16383)
+    )
+  ) {
+    errors.push({
+      field: "conversion.resize.sizes",
+      message:
+        "Resize widths must be integers between 1 and 16383, or 'original'",
+    });
+  }
+  if (!RESIZE_FITS.includes(fit)) {
+    errors.push({
+      field: "conversion.resize.fit",
+      message: `Resize fit must be one of: ${RESIZE_FITS.join(", ")}`,
+    });
+  }
+
   // Processing configuration validation
   if (config.processing.concurrency < 1 || config.processing.concurrency > 50) {
     errors.push({
@@ -177,6 +348,77 @@ export function validateConfig(config: Config): ValidationError[] {
     });
   }
 
+  const memoryLimits = config.processing.memory;
+  (
+    [
+      ["processing.memory.maxRssBytes", memoryLimits.maxRssBytes],
+      ["processing.memory.maxHeapUsedBytes", memoryLimits.maxHeapUsedBytes],
+      ["processing.memory.maxInFlightBytes", memoryLimits.maxInFlightBytes],
+    ] as const
+  ).forEach(([field, value]) => {
+    if (!Number.isFinite(value) || value <= 0) {
+      errors.push({
+        field,
+        message: "Memory limit must be greater than 0",
+      });
+    }
+  });
+
+  // Tracking configuration validation
+  if (!TRACKER_BACKENDS.includes(config.tracking.backend)) {
+    errors.push({
+      field: "tracking.backend",
+      message: `Tracker backend must be one of: ${TRACKER_BACKENDS.join(", ")}`,
+    });
+  }
+
+  if (config.tracking.backend === "s3") {
+    if (!validateBucketName(config.tracking.s3.bucket)) {
+      errors.push({
+        field: "tracking.s3.bucket",
+        message:
+          "Invalid S3 bucket name. Must be 3-63 characters, lowercase letters, numbers, hyphens, and periods only.",
+      });
+    }
+    if (!config.tracking.s3.prefix) {
+      errors.push({
+        field: "tracking.s3.prefix",
+        message: "Tracker manifest prefix must not be empty",
+      });
+    }
+  }
+
+  // Leasing configuration validation
+  if (!LEASE_BACKENDS.includes(config.leasing.backend)) {
+    errors.push({
+      field: "leasing.backend",
+      message: `Lease backend must be one of: ${LEASE_BACKENDS.join(", ")}`,
+    });
+  }
+
+  if (!Number.isFinite(config.leasing.ttlMs) || config.leasing.ttlMs < 1000) {
+    errors.push({
+      field: "leasing.ttlMs",
+      message: "Lease TTL must be at least 1 second",
+    });
+  }
+
+  if (config.leasing.backend === "s3") {
+    if (!validateBucketName(config.leasing.s3.bucket)) {
+      errors.push({
+        field: "leasing.s3.bucket",
+        message:
+          "Invalid S3 bucket name. Must be 3-63 characters, lowercase letters, numbers, hyphens, and periods only.",
+      });
+    }
+    if (!config.leasing.s3.prefix) {
+      errors.push({
+        field: "leasing.s3.prefix",
+        message: "Lease marker prefix must not be empty",
+      });
+    }
+  }
+
   // Logging configuration validation
   if (!validateLogLevel(config.logging.level)) {
     errors.push({
@@ -201,33 +443,245 @@ export function validateConfig(config: Config): ValidationError[] {
     });
   }
 
+  if (!config.server.host || config.server.host.includes("/")) {
+    errors.push({
+      field: "server.host",
+      message: "Server host must be a host name or IP address without a scheme",
+    });
+  }
+
+  if (
+    !Number.isFinite(config.server.healthCheckTtlMs) ||
+    config.server.healthCheckTtlMs < 0
+  ) {
+    errors.push({
+      field: "server.healthCheckTtlMs",
+      message: "Health check TTL must be 0 or more seconds",
+    });
+  }
+
+  if (
+    !Number.isInteger(config.server.imageMaxAgeSeconds) ||
+    config.server.imageMaxAgeSeconds < 0
+  ) {
+    errors.push({
+      field: "server.imageMaxAgeSeconds",
+      message: "Image max age must be 0 or more seconds",
+    });
+  }
+
+  if (
+    !Number.isInteger(config.server.eventQueueLimit) ||
+    config.server.eventQueueLimit < 1
+  ) {
+    errors.push({
+      field: "server.eventQueueLimit",
+      message: "Event queue limit must be a positive integer",
+    });
+  }
+
+  const { auth } = config.server;
+  const keyIds = new Set<string>();
+  const keyValues = new Set<string>();
+  auth.apiKeys.forEach((apiKey, index) => {
+    const field = `server.auth.apiKeys[${index}]`;
+    if (!/^[\w.-]+$/.test(apiKey.id)) {
+      errors.push({
+        field,
+        message:
+          "API key id must use letters, numbers, dots, dashes or underscores. Expected format: id:key:scope+scope[:rateLimit]",
+      });
+    } else if (keyIds.has(apiKey.id)) {
+      errors.push({ field, message: `Duplicate API key id: ${apiKey.id}` });
+    }
+    if (apiKey.key.length < 16) {
+      errors.push({
+        field,
+        message: "API key must be at least 16 characters long",
+      });
+    } else if (keyValues.has(apiKey.key)) {
+      errors.push({ field, message: "API keys must be unique" });
+    }
+    if (
+      apiKey.scopes.length === 0 ||
+      apiKey.scopes.some((scope) => !API_SCOPES.includes(scope))
+    ) {
+      errors.push({
+        field,
+        message: `API key scopes must be one or more of: ${API_SCOPES.join(
+          ", "
+        )}`,
+      });
+    }
+    if (
+      apiKey.rateLimit !== undefined &&
+      (!Number.isInteger(apiKey.rateLimit) || apiKey.rateLimit < 1)
+    ) {
+      errors.push({
+        field,
+        message: "API key rate limit must be a positive integer",
+      });
+    }
+    keyIds.add(apiKey.id);
+    keyValues.add(apiKey.key);
+  });
+
+  if (auth.anonymousScopes.some((scope) => !API_SCOPES.includes(scope))) {
+    errors.push({
+      field: "server.auth.anonymousScopes",
+      message: `Anonymous scopes must be "none" or any of: ${API_SCOPES.join(
+        ", "
+      )}`,
+    });
+  }
+
+  if (auth.signingSecret !== undefined && auth.signingSecret.length < 32) {
+    errors.push({
+      field: "server.auth.signingSecret",
+      message: "URL signing secret must be at least 32 characters long",
+    });
+  }
+
+  if (
+    !Number.isInteger(auth.rateLimit.maxRequests) ||
+    auth.rateLimit.maxRequests < 1
+  ) {
+    errors.push({
+      field: "server.auth.rateLimit.maxRequests",
+      message: "Rate limit must be a positive integer",
+    });
+  }
+  if (
+    !Number.isFinite(auth.rateLimit.windowMs) ||
+    auth.rateLimit.windowMs < 1000
+  ) {
+    errors.push({
+      field: "server.auth.rateLimit.windowMs",
+      message: "Rate limit window must be at least 1 second",
+    });
+  }
+
   return errors;
 }
 
+/**
+ * Parses API_KEYS entries of the form id:key:scope+scope[:rateLimit]
+ */
+function parseApiKeys(value: string | undefined): ApiKey[] {
+  return (value || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [id = "", key = "", scopes = "", rateLimit] = entry.split(":");
+      return {
+        id,
+        key,
+        scopes: scopes
+          .split("+")
+          .map((scope) => scope.trim().toLowerCase())
+          .filter((scope) => scope.length > 0) as ApiScope[],
+        rateLimit: rateLimit ? Number(rateLimit) : undefined,
+      };
+    });
+}
+
 /**
  * Loads configuration from environment variables with defaults
  */
 export function loadConfig(): Config {
+  // AWS_BUCKET / AWS_PREFIX remain as the single-bucket defaults
+  const sourceBucket =
+    process.env.AWS_SOURCE_BUCKET || process.env.AWS_BUCKET || "my-webp-bucket";
+  const sourcePrefix =
+    process.env.AWS_SOURCE_PREFIX ?? process.env.AWS_PREFIX ?? "";
+
   const config: Config = {
     aws: {
       region: process.env.AWS_REGION || "ap-southeast-1",
-      targetBucket: process.env.AWS_BUCKET || "my-webp-bucket",
+      sourceBucket,
+      sourcePrefix,
+      destinationBucket: process.env.AWS_DESTINATION_BUCKET || sourceBucket,
+      destinationPrefix: process.env.AWS_DESTINATION_PREFIX ?? sourcePrefix,
       accessKeyId: process.env.AWS_ACCESS_KEY_ID,
       secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
-      prefix: process.env.AWS_PREFIX || "",
       maxKeys: parseInt(process.env.AWS_MAX_KEYS || "1000", 10),
     },
     conversion: {
       quality: parseInt(process.env.WEBP_QUALITY || "80", 10),
+      encodingMode: (
+        process.env.ENCODING_MODE || "lossy"
+      ).toLowerCase() as EncodingModeSetting,
+      targetQuality: {
+        ssim: parseFloat(process.env.TARGET_SSIM || "0"),
+        minQuality: parseInt(process.env.TARGET_QUALITY_MIN || "30", 10),
+        maxQuality: parseInt(process.env.TARGET_QUALITY_MAX || "95", 10),
+        maxBytes: parseInt(process.env.TARGET_MAX_BYTES || "0", 10),
+      },
       supportedFormats: (process.env.SUPPORTED_FORMATS || "jpeg,jpg,png")
         .split(",")
-        .map((f) => f.trim().toLowerCase()),
+        .map((f) => f.trim().toLowerCase())
+        .filter((f) => f.length > 0),
+      contentSniffing: process.env.CONTENT_SNIFFING === "true",
+      outputFormats: (process.env.OUTPUT_FORMATS || "webp")
+        .split(",")
+        .map((f) => f.trim().toLowerCase() as OutputFormat),
       maxFileSize: parseInt(process.env.MAX_FILE_SIZE || "104857600", 10), // 100MB default
+      streamingThreshold: parseInt(
+        process.env.STREAMING_THRESHOLD || "33554432",
+        10
+      ), // 32MB default
+      resize: {
+        sizes: (process.env.RESIZE_WIDTHS || "original")
+          .split(",")
+          .map((s) => s.trim().toLowerCase())
+          .filter((s) => s.length > 0)
+          .map((s): SizeVariant => (s === "original" ? s : Number(s))),
+        fit: (process.env.RESIZE_FIT || "inside").toLowerCase() as ResizeFit,
+        withoutEnlargement: process.env.RESIZE_ALLOW_UPSCALE !== "true",
+      },
     },
     processing: {
       concurrency: parseInt(process.env.CONCURRENCY || "5", 10),
       retryAttempts: parseInt(process.env.RETRY_ATTEMPTS || "3", 10),
       retryDelay: parseInt(process.env.RETRY_DELAY || "1000", 10), // 1 second default
+      memory: {
+        maxRssBytes:
+          parseInt(process.env.MAX_RSS_MB || "1536", 10) * 1024 * 1024,
+        maxHeapUsedBytes:
+          parseInt(process.env.MAX_HEAP_MB || "1024", 10) * 1024 * 1024,
+        maxInFlightBytes:
+          parseInt(process.env.MAX_INFLIGHT_MB || "512", 10) * 1024 * 1024,
+      },
+    },
+    tracking: {
+      backend: (
+        process.env.TRACKER_BACKEND || "file"
+      ).toLowerCase() as TrackerBackend,
+      filePath: process.env.TRACKER_FILE || "logs/converted-images.json",
+      sqlitePath: process.env.TRACKER_SQLITE_PATH || "logs/converted-images.db",
+      s3: {
+        bucket:
+          process.env.TRACKER_S3_BUCKET ||
+          process.env.AWS_DESTINATION_BUCKET ||
+          sourceBucket,
+        prefix: process.env.TRACKER_S3_PREFIX ?? "webp-converter/tracker/",
+      },
+    },
+    leasing: {
+      backend: (
+        process.env.LEASE_BACKEND || "file"
+      ).toLowerCase() as LeaseBackend,
+      ttlMs: parseInt(process.env.LEASE_TTL_SECONDS || "900", 10) * 1000, // 15 minutes default
+      directory: process.env.LEASE_DIRECTORY || "logs/leases",
+      s3: {
+        bucket:
+          process.env.LEASE_S3_BUCKET ||
+          process.env.TRACKER_S3_BUCKET ||
+          process.env.AWS_DESTINATION_BUCKET ||
+          sourceBucket,
+        prefix: process.env.LEASE_S3_PREFIX ?? "webp-converter/leases/",
+      },
     },
     logging: {
       level: (process.env.LOG_LEVEL || "info").toLowerCase(),
@@ -236,6 +690,27 @@ export function loadConfig(): Config {
     server: {
       port: parseInt(process.env.PORT || "3000", 10),
       host: process.env.HOST || "0.0.0.0",
+      healthCheckTtlMs:
+        parseInt(process.env.HEALTH_CHECK_TTL_SECONDS || "30", 10) * 1000,
+      imageMaxAgeSeconds: parseInt(
+        process.env.IMAGE_CACHE_MAX_AGE_SECONDS || "86400",
+        10
+      ),
+      eventQueueLimit: parseInt(process.env.EVENT_QUEUE_LIMIT || "1000", 10),
+      auth: {
+        apiKeys: parseApiKeys(process.env.API_KEYS),
+        anonymousScopes: (process.env.API_ANONYMOUS_SCOPES || "none")
+          .split(",")
+          .map((s) => s.trim().toLowerCase())
+          .filter((s) => s.length > 0 && s !== "none") as ApiScope[],
+        signingSecret: process.env.URL_SIGNING_SECRET || undefined,
+        rateLimit: {
+          windowMs:
+            parseInt(process.env.API_RATE_LIMIT_WINDOW_SECONDS || "60", 10) *
+            1000,
+          maxRequests: parseInt(process.env.API_RATE_LIMIT || "600", 10),
+        },
+      },
     },
     mockup: {
       imageCount: parseInt(process.env.MOCKUP_IMAGE_COUNT || "0", 10),
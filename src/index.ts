@@ -1,26 +1,44 @@
 import { Config, ConfigurationError, getConfig } from "./config";
-import { ConversionReport } from "./models";
+import {
+  ConversionReport,
+  ReconciliationOptions,
+  ReconciliationReport,
+} from "./models";
 import {
   AWSS3Service,
   BatchConversionService,
   ExpressService,
+  ImageDeliveryService,
   SharpImageProcessor,
-  FileBasedConversionTracker,
+  UploadConversionService,
+  ConversionTracker,
+  createConversionTracker,
+  createLeaseStore,
+  EventIngestionService,
+  HealthService,
+  JobService,
+  ReadinessReport,
+  ReconciliationService,
 } from "./services";
 
 export interface ApplicationOptions {
   dryRun?: boolean;
   verbose?: boolean;
   skipValidation?: boolean;
+  /** Convert again even when the outputs already exist */
+  force?: boolean;
 }
 
 export class Application {
   private readonly config: Config;
   private readonly s3Service: AWSS3Service;
   private readonly imageProcessor: SharpImageProcessor;
-  private readonly conversionTracker: FileBasedConversionTracker;
+  private readonly conversionTracker: ConversionTracker;
   private readonly conversionService: BatchConversionService;
+  private readonly reconciliationService: ReconciliationService;
+  private readonly healthService: HealthService;
   private readonly expressService: ExpressService;
+  private readonly eventIngestionService: EventIngestionService;
   private isShuttingDown = false;
   private readonly skipValidation: boolean;
   private readonly shutdownHandlers: (() => Promise<void>)[] = [];
@@ -29,21 +47,76 @@ export class Application {
     try {
       this.config = getConfig();
       this.s3Service = new AWSS3Service(this.config);
-      this.imageProcessor = new SharpImageProcessor();
-      this.conversionTracker = new FileBasedConversionTracker();
+      this.imageProcessor = new SharpImageProcessor(
+        this.config.conversion.supportedFormats
+      );
+      this.conversionTracker = createConversionTracker(
+        this.config,
+        this.s3Service
+      );
 
+      const leaseStore = createLeaseStore(this.config, this.s3Service);
       this.conversionService = new BatchConversionService(
         this.s3Service,
         this.imageProcessor,
         this.config,
         this.conversionTracker,
-        options.dryRun || false
+        options.dryRun || false,
+        leaseStore
       );
-      this.expressService = new ExpressService(
+      // Jobs started over HTTP may override quality and dry-run per job
+      const jobService = new JobService(
+        this.config,
+        ({ quality, dryRun }) =>
+          new BatchConversionService(
+            this.s3Service,
+            this.imageProcessor,
+            {
+              ...this.config,
+              conversion: { ...this.config.conversion, quality },
+            },
+            this.conversionTracker,
+            dryRun,
+            leaseStore
+          )
+      );
+      this.reconciliationService = new ReconciliationService(
+        this.s3Service,
+        this.conversionService,
+        this.conversionTracker,
+        this.config
+      );
+      // Dry runs must not write, so put permissions are not probed
+      this.healthService = new HealthService(
+        this.config,
+        this.s3Service,
+        this.imageProcessor,
+        this.conversionTracker,
+        { probeWrites: !options.dryRun }
+      );
+      this.eventIngestionService = new EventIngestionService(
         this.config,
         this.s3Service,
         this.conversionService
       );
+      this.expressService = new ExpressService(
+        this.config,
+        this.healthService,
+        this.conversionService,
+        jobService,
+        new ImageDeliveryService(
+          this.config,
+          this.s3Service,
+          this.imageProcessor
+        ),
+        new UploadConversionService(
+          this.config,
+          this.s3Service,
+          this.imageProcessor,
+          this.conversionService
+        ),
+        this.eventIngestionService
+      );
       this.skipValidation = options.skipValidation || false;
 
       // Setup graceful shutdown handlers
@@ -65,7 +138,7 @@ export class Application {
     try {
       // Run validation if not skipped
       if (!this.skipValidation) {
-        // await this.validateStartupConditions();
+        await this.validateStartupConditions();
       }
 
       // Start service
@@ -88,25 +161,57 @@ export class Application {
       }
       // Stop service
       await this.expressService.stopServer();
+      await this.eventIngestionService.stop();
+      // Buffered tracker writes of HTTP and event conversions would be lost
+      await this.conversionTracker.flush();
     } catch (error) {
       throw error;
     }
   }
+  /**
+   * Runs every readiness check now, bypassing the cached result
+   */
+  async checkHealth(): Promise<ReadinessReport> {
+    return this.healthService.runChecks();
+  }
+
   async runConversion(
-    _options: ApplicationOptions = {},
+    options: ApplicationOptions = {},
     onProgress?: (msg: string) => void
   ): Promise<ConversionReport> {
     if (this.isShuttingDown) {
       throw new Error("Cannot run conversion during shutdown");
     }
     try {
-      const report = await this.conversionService.processAllImages(onProgress);
+      const report = await this.conversionService.processAllImages(onProgress, {
+        force: options.force === true,
+      });
       return report;
     } catch (error) {
       throw error;
     }
   }
 
+  async runRetryFailed(
+    errorType?: string,
+    onProgress?: (msg: string) => void
+  ): Promise<ConversionReport> {
+    if (this.isShuttingDown) {
+      throw new Error("Cannot run conversion during shutdown");
+    }
+    return this.conversionService.retryFailedImages(errorType, onProgress);
+  }
+
+  async runReconcile(
+    options: ReconciliationOptions,
+    onProgress?: (msg: string) => void
+  ): Promise<ReconciliationReport> {
+    if (this.isShuttingDown) {
+      throw new Error("Cannot run reconciliation during shutdown");
+    }
+    return this.reconciliationService.reconcile(options, onProgress);
+  }
+
   async runMockup(
     _options: ApplicationOptions = {},
     onProgress?: (msg: string) => void
@@ -121,6 +226,21 @@ export class Application {
     }
   }
 
+  /**
+   * Refuses to start while a dependency the server needs is unusable
+   */
+  private async validateStartupConditions(): Promise<void> {
+    const report = await this.healthService.runChecks();
+    const failed = report.checks.filter((check) => check.status === "fail");
+    if (failed.length > 0) {
+      throw new Error(
+        `Startup checks failed: ${failed
+          .map((check) => `${check.name} (${check.message})`)
+          .join(", ")}`
+      );
+    }
+  }
+
   private setupShutdownHandlers(): void {
     const signals: NodeJS.Signals[] = ["SIGTERM", "SIGINT", "SIGUSR2"];
 
@@ -0,0 +1,11 @@
+/** `read` covers every GET route; `control` starts jobs and conversions */
+export const API_SCOPES = ["read", "control"] as const;
+export type ApiScope = (typeof API_SCOPES)[number];
+
+export interface ApiKey {
+  id: string;
+  key: string;
+  scopes: ApiScope[];
+  /** Requests per rate limit window, overriding the default */
+  rateLimit?: number | undefined;
+}
@@ -0,0 +1,29 @@
+import { OutputFormat, SizeVariant, SkipReason } from "./image";
+
+/**
+ * Structured progress events of a conversion run, one per image state change
+ */
+export type ConversionEvent =
+  | { type: "image.started"; sourceKey: string; size: number }
+  | {
+      type: "image.converted";
+      sourceKey: string;
+      status: "success" | "updated";
+      originalSize: number;
+      convertedSize: number;
+      compressionRatio: number;
+      processingTime: number;
+      outputs: {
+        targetKey: string;
+        format: OutputFormat;
+        size: SizeVariant;
+        convertedSize: number;
+      }[];
+    }
+  | { type: "image.skipped"; sourceKey: string; reason: SkipReason }
+  | {
+      type: "image.failed";
+      sourceKey: string;
+      errorType: string;
+      error: string;
+    };
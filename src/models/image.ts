@@ -7,6 +7,33 @@ export interface ImageMetadata {
   contentType: string;
 }
 
+export interface ConvertedImage {
+  buffer: Buffer;
+  width: number;
+  height: number;
+  encodingMode: EncodingMode;
+  quality: number;
+  /** Achieved SSIM when the quality was searched for a target score */
+  similarity?: number | undefined;
+}
+
+export interface ConversionOutput {
+  format: OutputFormat;
+  size: SizeVariant;
+  targetKey: string;
+  width: number;
+  height: number;
+  contentType: string;
+  convertedSize: number;
+  compressionRatio: number;
+  encodingMode?: EncodingMode;
+  quality?: number;
+  similarity?: number | undefined;
+  status: "success" | "skipped";
+}
+
+export type SkipReason = "already_exists" | "too_large" | "claimed_elsewhere";
+
 export interface ConversionResult {
   sourceKey: string;
   targetKey: string;
@@ -14,20 +41,87 @@ export interface ConversionResult {
   convertedSize: number;
   compressionRatio: number;
   processingTime: number;
-  status: "success" | "failed" | "skipped";
+  status: "success" | "updated" | "failed" | "skipped";
+  skipReason?: SkipReason;
+  /** Highest number of attempts any download, conversion or upload needed */
+  attempts: number;
+  outputs: ConversionOutput[];
   error?: string;
+  /** Error class name, e.g. CorruptedImageError or S3OperationError */
+  errorType?: string;
+}
+
+export interface FormatReport {
+  converted: number;
+  skipped: number;
+  totalSizeAfter: number;
 }
 
 export interface ConversionReport {
   totalImages: number;
   successful: number;
+  updated: number;
   failed: number;
   skipped: number;
   totalSizeBefore: number;
   totalSizeAfter: number;
   averageCompressionRatio: number;
   processingDuration: number;
+  formats: Partial<Record<OutputFormat, FormatReport>>;
+  skipReasons: Partial<Record<SkipReason, number>>;
+  throughput: {
+    imagesPerSecond: number;
+    bytesPerSecond: number;
+  };
+  peakMemory: {
+    rss: number;
+    heapUsed: number;
+  };
   errors: string[];
 }
-export const SUPPORTED_FORMATS = ["jpeg", "jpg", "png"] as const;
-export type SupportedFormat = (typeof SUPPORTED_FORMATS)[number];
+export const OUTPUT_FORMATS = ["webp", "avif", "jxl"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const RESIZE_FITS = [
+  "cover",
+  "contain",
+  "fill",
+  "inside",
+  "outside",
+] as const;
+export type ResizeFit = (typeof RESIZE_FITS)[number];
+
+/** A target width in pixels, or the source dimensions unchanged */
+export type SizeVariant = number | "original";
+
+export interface ResizeOptions {
+  width: number;
+  fit: ResizeFit;
+  withoutEnlargement: boolean;
+}
+
+export const ENCODING_MODES = [
+  "lossy",
+  "near-lossless",
+  "lossless",
+  "auto",
+] as const;
+/** "auto" is resolved per source image to one of the other modes */
+export type EncodingMode = Exclude<(typeof ENCODING_MODES)[number], "auto">;
+export type EncodingModeSetting = (typeof ENCODING_MODES)[number];
+
+/** Searches the lowest quality whose SSIM reaches `ssim`, 0 disables it */
+export interface TargetQualityOptions {
+  ssim: number;
+  minQuality: number;
+  maxQuality: number;
+  /** Upper size budget for an output in bytes, 0 for no budget */
+  maxBytes: number;
+}
+
+export interface EncodeOptions {
+  quality: number;
+  resize?: ResizeOptions | undefined;
+  encodingMode?: EncodingMode | undefined;
+  targetQuality?: TargetQualityOptions | undefined;
+}
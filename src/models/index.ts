@@ -1 +1,6 @@
-export * from "./image";
\ No newline at end of file
+export * from "./auth";
+export * from "./events";
+export * from "./image";
+export * from "./job";
+export * from "./reconciliation";
+export * from "./tracking";
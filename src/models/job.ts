@@ -0,0 +1,31 @@
+import { ConversionEvent } from "./events";
+import { ConversionReport } from "./image";
+
+export type JobStatus = "running" | "completed" | "failed";
+
+export interface JobRequest {
+  /** Source key prefix to convert, within the configured source prefix */
+  prefix?: string;
+  quality?: number;
+  dryRun?: boolean;
+}
+
+export interface ConversionJob {
+  id: string;
+  status: JobStatus;
+  prefix: string;
+  quality: number;
+  dryRun: boolean;
+  createdAt: string;
+  finishedAt?: string;
+  /** Last progress message of the running conversion */
+  message?: string;
+  /** Counters are updated while the job runs */
+  report: ConversionReport;
+  error?: string;
+}
+
+/** Events streamed for a job: its image events, then the finished job */
+export type JobEvent =
+  | ConversionEvent
+  | { type: "job.finished"; job: ConversionJob };
@@ -0,0 +1,25 @@
+export interface ReconciliationReport {
+  sourceCount: number;
+  outputCount: number;
+  trackedCount: number;
+  /** Sources missing at least one of the configured outputs */
+  sourcesWithoutOutputs: string[];
+  /** Outputs whose source object no longer exists */
+  orphanOutputs: string[];
+  /** Tracked target keys that are missing from the destination bucket */
+  trackedMissingTargets: string[];
+  /** Outputs that exist for a source but are not in the tracker */
+  untrackedOutputs: string[];
+  fixes: {
+    requeued: number;
+    deletedOrphans: number;
+    backfilled: number;
+  };
+}
+
+export interface ReconciliationOptions {
+  requeue?: boolean;
+  deleteOrphans?: boolean;
+  backfill?: boolean;
+  dryRun?: boolean;
+}
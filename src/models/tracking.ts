@@ -0,0 +1,5 @@
+export const TRACKER_BACKENDS = ["file", "sqlite", "s3"] as const;
+export type TrackerBackend = (typeof TRACKER_BACKENDS)[number];
+
+export const LEASE_BACKENDS = ["none", "file", "s3"] as const;
+export type LeaseBackend = (typeof LEASE_BACKENDS)[number];
@@ -0,0 +1,372 @@
+import crypto from "crypto";
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { Config } from "../config";
+import { API_SCOPES, ApiKey, ApiScope } from "../models";
+import { AuthenticationError } from "../utils/error";
+import logger from "../utils/logger";
+
+/** Prefix of the routes signed URLs are valid for */
+const SIGNED_URL_PATH_PREFIX = "/images/";
+/** Addresses only reachable from this machine, including IPv4-mapped IPv6 */
+const LOOPBACK_ADDRESS_PATTERN = /^(127\.|::1$|::ffff:127\.)/;
+
+export interface AuthContext {
+  /** API key id, or "anonymous" / "signed-url" */
+  principal: string;
+  scopes: ApiScope[];
+  /** Requests per window; unset means the principal is not rate limited */
+  rateLimit?: number | undefined;
+  /** Counter the rate limit applies to, the principal when unset */
+  rateLimitKey?: string | undefined;
+}
+
+/**
+ * Recognises one kind of credential. Returns undefined when the request
+ * does not carry that kind, and throws AuthenticationError when it does but
+ * the credential is invalid.
+ */
+export interface Authenticator {
+  authenticate(req: Request): AuthContext | undefined;
+}
+
+/**
+ * Static API keys, sent as `X-API-Key`, `Authorization: Bearer <key>` or
+ * `Authorization: Basic` with the key id as user name and the key as
+ * password (for senders such as SNS that only support credentials in URLs)
+ */
+export class ApiKeyAuthenticator implements Authenticator {
+  private readonly keys: { apiKey: ApiKey; digest: Buffer }[];
+  private readonly defaultRateLimit: number;
+
+  constructor(apiKeys: ApiKey[], defaultRateLimit: number) {
+    this.keys = apiKeys.map((apiKey) => ({
+      apiKey,
+      digest: digest(apiKey.key),
+    }));
+    this.defaultRateLimit = defaultRateLimit;
+  }
+
+  authenticate(req: Request): AuthContext | undefined {
+    const presented = this.getPresentedKey(req);
+    if (presented === undefined) {
+      return undefined;
+    }
+
+    // Compare digests so neither length nor content leaks through timing
+    const presentedDigest = digest(presented);
+    const match = this.keys.find(({ digest: keyDigest }) =>
+      crypto.timingSafeEqual(keyDigest, presentedDigest)
+    );
+    if (!match) {
+      throw new AuthenticationError("Invalid API key");
+    }
+    return {
+      principal: match.apiKey.id,
+      scopes: match.apiKey.scopes,
+      rateLimit: match.apiKey.rateLimit ?? this.defaultRateLimit,
+    };
+  }
+
+  private getPresentedKey(req: Request): string | undefined {
+    const headerKey = req.get("X-API-Key");
+    if (headerKey) {
+      return headerKey;
+    }
+
+    const [scheme, credentials] = (req.get("Authorization") ?? "").split(" ");
+    if (scheme?.toLowerCase() === "bearer" && credentials) {
+      return credentials;
+    }
+    if (scheme?.toLowerCase() === "basic" && credentials) {
+      const decoded = Buffer.from(credentials, "base64").toString("utf-8");
+      return decoded.substring(decoded.indexOf(":") + 1);
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Image URLs signed with `signUrl`, granting read access to that exact path
+ * and query until `expires`
+ */
+export class SignedUrlAuthenticator implements Authenticator {
+  private readonly secret: string;
+  private readonly rateLimit: number;
+
+  constructor(secret: string, rateLimit: number) {
+    this.secret = secret;
+    this.rateLimit = rateLimit;
+  }
+
+  authenticate(req: Request): AuthContext | undefined {
+    const url = new URL(req.originalUrl, "http://localhost");
+    const signature = url.searchParams.get("signature");
+    if (signature === null) {
+      return undefined;
+    }
+    if (!url.pathname.startsWith(SIGNED_URL_PATH_PREFIX)) {
+      throw new AuthenticationError("Signed URLs are only valid for images");
+    }
+
+    const expires = Number(url.searchParams.get("expires"));
+    if (!Number.isInteger(expires) || expires * 1000 <= Date.now()) {
+      throw new AuthenticationError("Signed URL has expired");
+    }
+
+    const expected = Buffer.from(
+      computeSignature(this.secret, url.pathname, url.searchParams)
+    );
+    const presented = Buffer.from(signature);
+    if (
+      expected.length !== presented.length ||
+      !crypto.timingSafeEqual(expected, presented)
+    ) {
+      throw new AuthenticationError("Invalid URL signature");
+    }
+    // Every client shares the principal, so each address is limited alone
+    return {
+      principal: "signed-url",
+      scopes: ["read"],
+      rateLimit: this.rateLimit,
+      rateLimitKey: `signed-url@${clientAddress(req)}`,
+    };
+  }
+}
+
+/**
+ * Fixed-window request counter per principal
+ */
+export class RateLimiter {
+  private readonly windowMs: number;
+  private readonly windows: Map<string, { start: number; count: number }> =
+    new Map();
+  private lastSweep = Date.now();
+
+  constructor(windowMs: number) {
+    this.windowMs = windowMs;
+  }
+
+  consume(
+    principal: string,
+    limit: number
+  ): { allowed: boolean; remaining: number; resetAt: number } {
+    const now = Date.now();
+    // Keys per client address would otherwise accumulate forever
+    if (now - this.lastSweep >= this.windowMs) {
+      this.windows.forEach((expired, key) => {
+        if (now - expired.start >= this.windowMs) {
+          this.windows.delete(key);
+        }
+      });
+      this.lastSweep = now;
+    }
+    let window = this.windows.get(principal);
+    if (!window || now - window.start >= this.windowMs) {
+      window = { start: now, count: 0 };
+      this.windows.set(principal, window);
+    }
+    window.count++;
+    return {
+      allowed: window.count <= limit,
+      remaining: Math.max(0, limit - window.count),
+      resetAt: window.start + this.windowMs,
+    };
+  }
+}
+
+/**
+ * Guards routes with the configured authenticators, scopes and rate limits
+ */
+export class AuthService {
+  private readonly authenticators: Authenticator[];
+  private readonly anonymousScopes: ApiScope[];
+  private readonly rateLimiter: RateLimiter;
+  private readonly anonymousRateLimit: number;
+  // Granted anonymously once the server is known to listen on loopback only
+  private readonly loopbackScopes: ApiScope[];
+  private listensOnLoopback = false;
+
+  constructor(
+    authenticators: Authenticator[],
+    anonymousScopes: ApiScope[],
+    rateLimiter: RateLimiter,
+    anonymousRateLimit: number,
+    loopbackScopes: ApiScope[] = []
+  ) {
+    this.authenticators = authenticators;
+    this.anonymousScopes = anonymousScopes;
+    this.rateLimiter = rateLimiter;
+    this.anonymousRateLimit = anonymousRateLimit;
+    this.loopbackScopes = loopbackScopes;
+  }
+
+  /**
+   * Records the address the server bound to. The loopback scopes only apply
+   * when it cannot be reached from other machines, whatever HOST said.
+   */
+  setListenAddress(address: string): void {
+    this.listensOnLoopback = LOOPBACK_ADDRESS_PATTERN.test(address);
+    if (
+      !this.listensOnLoopback &&
+      this.loopbackScopes.length > 0 &&
+      this.anonymousScopes.length === 0
+    ) {
+      logger.warn(
+        `No API keys configured and server listens on ${address}: only the /health endpoints are reachable. Set API_KEYS or API_ANONYMOUS_SCOPES.`,
+        { operation: "auth.noKeys", address }
+      );
+    }
+  }
+
+  /**
+   * Middleware that lets the request through when its credentials grant
+   * `scope`; `control` also grants `read`
+   */
+  requireScope(scope: ApiScope): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      let context: AuthContext | undefined;
+      try {
+        context = this.authenticate(req);
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          res.status(401).json({ error: error.message });
+          return;
+        }
+        throw error;
+      }
+
+      if (!context) {
+        res
+          .status(401)
+          .set("WWW-Authenticate", 'Bearer realm="webp-converter"')
+          .json({ error: "Authentication required" });
+        return;
+      }
+      if (!hasScope(context.scopes, scope)) {
+        res
+          .status(403)
+          .json({ error: `Credentials lack the "${scope}" scope` });
+        return;
+      }
+
+      if (context.rateLimit !== undefined) {
+        const { allowed, remaining, resetAt } = this.rateLimiter.consume(
+          context.rateLimitKey ?? context.principal,
+          context.rateLimit
+        );
+        res.set({
+          "X-RateLimit-Limit": context.rateLimit.toString(),
+          "X-RateLimit-Remaining": remaining.toString(),
+          "X-RateLimit-Reset": Math.ceil(resetAt / 1000).toString(),
+        });
+        if (!allowed) {
+          res
+            .status(429)
+            .set(
+              "Retry-After",
+              Math.ceil((resetAt - Date.now()) / 1000).toString()
+            )
+            .json({ error: "Rate limit exceeded" });
+          return;
+        }
+      }
+
+      res.locals.auth = context;
+      next();
+    };
+  }
+
+  private authenticate(req: Request): AuthContext | undefined {
+    for (const authenticator of this.authenticators) {
+      const context = authenticator.authenticate(req);
+      if (context) {
+        return context;
+      }
+    }
+    const scopes = this.listensOnLoopback
+      ? [...new Set([...this.anonymousScopes, ...this.loopbackScopes])]
+      : this.anonymousScopes;
+    if (scopes.length > 0) {
+      return {
+        principal: "anonymous",
+        scopes,
+        rateLimit: this.anonymousRateLimit,
+        rateLimitKey: `anonymous@${clientAddress(req)}`,
+      };
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Creates the auth service for the configured keys and secret. Without any
+ * API key, a server bound to a loopback address stays open so local use
+ * keeps working; on other addresses only the anonymous scopes apply.
+ */
+export function createAuthService(config: Config): AuthService {
+  const { auth } = config.server;
+  const authenticators: Authenticator[] = [
+    new ApiKeyAuthenticator(auth.apiKeys, auth.rateLimit.maxRequests),
+  ];
+  if (auth.signingSecret) {
+    authenticators.push(
+      new SignedUrlAuthenticator(auth.signingSecret, auth.rateLimit.maxRequests)
+    );
+  }
+
+  return new AuthService(
+    authenticators,
+    auth.anonymousScopes,
+    new RateLimiter(auth.rateLimit.windowMs),
+    auth.rateLimit.maxRequests,
+    auth.apiKeys.length === 0 ? [...API_SCOPES] : []
+  );
+}
+
+/**
+ * Returns `path` with `expires` and `signature` query parameters that
+ * SignedUrlAuthenticator accepts until `expiresAt`
+ */
+export function signUrl(
+  secret: string,
+  path: string,
+  query: Record<string, string>,
+  expiresAt: Date
+): string {
+  const params = new URLSearchParams(query);
+  params.set("expires", Math.floor(expiresAt.getTime() / 1000).toString());
+  params.set("signature", computeSignature(secret, path, params));
+  return `${path}?${params.toString()}`;
+}
+
+function computeSignature(
+  secret: string,
+  path: string,
+  params: URLSearchParams
+): string {
+  // Every parameter but the signature is signed, in a stable order
+  const signed = [...params.entries()]
+    .filter(([name]) => name !== "signature")
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const canonical = `${path}?${new URLSearchParams(signed).toString()}`;
+  return crypto
+    .createHmac("sha256", secret)
+    .update(canonical)
+    .digest("base64url");
+}
+
+function hasScope(granted: ApiScope[], required: ApiScope): boolean {
+  return (
+    granted.includes(required) ||
+    (required === "read" && granted.includes("control"))
+  );
+}
+
+function digest(value: string): Buffer {
+  return crypto.createHash("sha256").update(value).digest();
+}
+
+// Behind a proxy this is only the client when express trusts the proxy
+function clientAddress(req: Request): string {
+  return req.ip ?? req.socket.remoteAddress ?? "unknown";
+}
@@ -1,6 +1,17 @@
 import fs from 'fs/promises';
 import path from 'path';
 import logger from '../utils/logger';
+import { globToRegExp } from '../utils/glob';
+import { EncodingMode, OutputFormat, SizeVariant } from '../models';
+
+export interface ConversionRecordOutput {
+    format: OutputFormat;
+    size: SizeVariant;
+    targetKey: string;
+    convertedSize: number;
+    quality?: number | undefined;
+    similarity?: number | undefined;
+}
 
 export interface ConversionRecord {
     sourceKey: string;
@@ -9,20 +20,75 @@ export interface ConversionRecord {
     originalSize: number;
     convertedSize: number;
     compressionRatio: number;
+    sourceEtag?: string;
+    sourceLastModified?: string;
+    encodingMode?: EncodingMode | undefined;
+    quality?: number | undefined;
+    similarity?: number | undefined;
+    outputs?: ConversionRecordOutput[];
+}
+
+// Last failed attempt for a source key, cleared by its next successful conversion
+export interface FailureRecord {
+    sourceKey: string;
+    errorType: string;
+    message: string;
+    attempts: number;
+    failedAt: string;
+    sourceEtag?: string | undefined;
+}
+
+// Filters for reading back or removing conversion records; dates are inclusive
+// and `pattern` is a glob over the whole source key (see utils/glob)
+export interface RecordQuery {
+    prefix?: string | undefined;
+    pattern?: string | undefined;
+    since?: Date | undefined;
+    until?: Date | undefined;
+}
+
+export function createRecordFilter(query: RecordQuery): (record: ConversionRecord) => boolean {
+    const pattern = query.pattern ? globToRegExp(query.pattern) : undefined;
+    return record => {
+        if (query.prefix && !record.sourceKey.startsWith(query.prefix)) return false;
+        if (pattern && !pattern.test(record.sourceKey)) return false;
+        const convertedAt = new Date(record.convertedAt).getTime();
+        if (query.since && convertedAt < query.since.getTime()) return false;
+        if (query.until && convertedAt > query.until.getTime()) return false;
+        return true;
+    };
+}
+
+// Compact per-source state kept in memory for skip decisions
+export interface TrackedConversion {
+    targetKeys: string[];
+    sourceEtag?: string | undefined;
+    sourceLastModified?: string | undefined;
 }
 
 export interface ConversionTracker {
   isConverted(sourceKey: string): Promise<boolean>;
+  getConversionState(sourceKey: string): Promise<TrackedConversion | undefined>;
   markAsConverted(record: ConversionRecord): Promise<void>;
+  markAsFailed(failure: FailureRecord): Promise<void>;
+  getFailures(errorType?: string): Promise<FailureRecord[]>;
   getConvertedKeys(): Promise<Set<string>>;
+  getRecords(query?: RecordQuery): Promise<ConversionRecord[]>;
+  // Forgets matching conversions so their sources are converted again; failures are kept
+  removeRecords(query: RecordQuery): Promise<number>;
   loadConvertedKeys(onProgress?: (msg:string) => void): Promise<void>;
   flush(): Promise<void>;
+  // Throws when conversions could not be recorded, for readiness checks
+  checkWritable(): Promise<void>;
 }
 
 export class FileBasedConversionTracker implements ConversionTracker {
     private readonly trackingFilePath: string;
     private readonly appendLogPath: string;
-    private convertedKeys: Set<string> = new Set();
+    private readonly failuresFilePath: string;
+    private convertedKeys: Map<string, TrackedConversion> = new Map();
+    private failures: Map<string, FailureRecord> = new Map();
+    private failuresWrite: Promise<void> = Promise.resolve();
     private isLoaded: boolean = false;
     private writeQueue: ConversionRecord[] = [];
     private isWriting: boolean = false;
@@ -30,6 +96,7 @@ export class FileBasedConversionTracker implements ConversionTracker {
     constructor(trackingFilePath: string = 'logs/converted-images.json') {
         this.trackingFilePath = trackingFilePath;
         this.appendLogPath = trackingFilePath.replace('.json', '-append.log');
+        this.failuresFilePath = trackingFilePath.replace('.json', '-failures.json');
     }
 
     async loadConvertedKeys(onProgress?:(msg:string) => void): Promise<void> {
@@ -45,6 +112,8 @@ export class FileBasedConversionTracker implements ConversionTracker {
             
             // Load from append log (for crash recovery)
             await this.loadFromAppendLog();
+
+            await this.loadFailures();
             onProgress?.(`Loaded ${this.convertedKeys.size} previously converted images from tracking files`);
             logger.info(`Loaded ${this.convertedKeys.size} previously converted images from tracking files`, {
                 operation: 'tracker.load',
@@ -59,7 +128,7 @@ export class FileBasedConversionTracker implements ConversionTracker {
                 error: error instanceof Error ? error.message : String(error),
                 trackingFile: this.trackingFilePath
             });
-            this.convertedKeys = new Set();
+            this.convertedKeys = new Map();
         }
 
         this.isLoaded = true;
@@ -69,7 +138,7 @@ export class FileBasedConversionTracker implements ConversionTracker {
         try {
             const data = await fs.readFile(this.trackingFilePath, 'utf-8');
             const records: ConversionRecord[] = JSON.parse(data);
-            records.forEach(record => this.convertedKeys.add(record.sourceKey));
+            records.forEach(record => this.trackRecord(record));
         } catch (error) {
             if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
                 logger.warn('Error reading main tracking file', { error });
@@ -85,7 +154,7 @@ export class FileBasedConversionTracker implements ConversionTracker {
             for (const line of lines) {
                 try {
                     const record: ConversionRecord = JSON.parse(line);
-                    this.convertedKeys.add(record.sourceKey);
+                    this.trackRecord(record);
                 } catch (parseError) {
                     logger.warn('Invalid JSON line in append log', { line, error: parseError });
                 }
@@ -102,16 +171,48 @@ export class FileBasedConversionTracker implements ConversionTracker {
         }
     }
 
+    private async loadFailures(): Promise<void> {
+        try {
+            const data = await fs.readFile(this.failuresFilePath, 'utf-8');
+            const failures: FailureRecord[] = JSON.parse(data);
+            this.failures = new Map(failures.map(failure => [failure.sourceKey, failure]));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                logger.warn('Error reading failures file', { error });
+            }
+        }
+    }
+
+    // Records written before variants existed only know their single target key
+    private trackRecord(record: ConversionRecord): void {
+        this.convertedKeys.set(record.sourceKey, {
+            targetKeys: record.outputs?.map(output => output.targetKey) ?? [record.targetKey],
+            sourceEtag: record.sourceEtag,
+            sourceLastModified: record.sourceLastModified
+        });
+    }
+
     async isConverted(sourceKey: string): Promise<boolean> {
         await this.loadConvertedKeys();
         return this.convertedKeys.has(sourceKey);
     }
 
+    async getConversionState(sourceKey: string): Promise<TrackedConversion | undefined> {
+        await this.loadConvertedKeys();
+        const state = this.convertedKeys.get(sourceKey);
+        return state ? { ...state, targetKeys: [...state.targetKeys] } : undefined;
+    }
+
     async markAsConverted(record: ConversionRecord): Promise<void> {
         await this.loadConvertedKeys();
 
-        // Add to in-memory set
-        this.convertedKeys.add(record.sourceKey);
+        // Add to in-memory index
+        this.trackRecord(record);
+
+        // A successful conversion resolves any earlier failure
+        if (this.failures.delete(record.sourceKey)) {
+            await this.persistFailures();
+        }
 
         // Add to write queue for batch processing
         this.writeQueue.push(record);
@@ -137,9 +238,107 @@ export class FileBasedConversionTracker implements ConversionTracker {
         });
     }
 
+    async markAsFailed(failure: FailureRecord): Promise<void> {
+        await this.loadConvertedKeys();
+        this.failures.set(failure.sourceKey, failure);
+        await this.persistFailures();
+    }
+
+    async getFailures(errorType?: string): Promise<FailureRecord[]> {
+        await this.loadConvertedKeys();
+        return [...this.failures.values()].filter(
+            failure => !errorType || failure.errorType === errorType
+        );
+    }
+
+    // Failures are few compared to conversions, so the whole file is rewritten;
+    // writes are chained so concurrent workers never interleave them
+    private persistFailures(): Promise<void> {
+        this.failuresWrite = this.failuresWrite.then(async () => {
+            try {
+                await fs.writeFile(
+                    this.failuresFilePath,
+                    JSON.stringify([...this.failures.values()], null, 2),
+                    'utf-8'
+                );
+            } catch (error) {
+                logger.error('Failed to write failures file', {
+                    operation: 'tracker.failuresWriteError',
+                    error: error instanceof Error ? error.message : String(error),
+                    failuresFile: this.failuresFilePath
+                });
+            }
+        });
+        return this.failuresWrite;
+    }
+
     async getConvertedKeys(): Promise<Set<string>> {
         await this.loadConvertedKeys();
-        return new Set(this.convertedKeys);
+        return new Set(this.convertedKeys.keys());
+    }
+
+    // Full records are not kept in memory, so they are read back from both files
+    async getRecords(query: RecordQuery = {}): Promise<ConversionRecord[]> {
+        // Queued records are already in the append log
+        return (await this.readAllRecords()).filter(createRecordFilter(query));
+    }
+
+    async removeRecords(query: RecordQuery): Promise<number> {
+        await this.loadConvertedKeys();
+        await this.flush();
+
+        const matches = createRecordFilter(query);
+        const records = await this.readAllRecords();
+        const kept = records.filter(record => !matches(record));
+        const removed = records.length - kept.length;
+        if (removed === 0) return 0;
+
+        // Rewrite the main file and empty the append log, otherwise the removed
+        // records would come back on the next load
+        await fs.writeFile(this.trackingFilePath, JSON.stringify(kept, null, 2), 'utf-8');
+        await fs.writeFile(this.appendLogPath, '', 'utf-8');
+        records.filter(matches).forEach(record => this.convertedKeys.delete(record.sourceKey));
+
+        logger.info(`Removed ${removed} records from tracking file`, {
+            operation: 'tracker.remove',
+            removedCount: removed,
+            totalRecords: kept.length,
+            query
+        });
+        return removed;
+    }
+
+    private async readAllRecords(): Promise<ConversionRecord[]> {
+        const records = new Map<string, ConversionRecord>();
+
+        try {
+            const mainData = await fs.readFile(this.trackingFilePath, 'utf-8');
+            const mainRecords: ConversionRecord[] = JSON.parse(mainData);
+            mainRecords.forEach(record => records.set(record.sourceKey, record));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+        }
+
+        try {
+            const appendData = await fs.readFile(this.appendLogPath, 'utf-8');
+            const lines = appendData.trim().split('\n').filter(line => line.trim());
+            for (const line of lines) {
+                try {
+                    const record: ConversionRecord = JSON.parse(line);
+                    records.set(record.sourceKey, record);
+                } catch (parseError) {
+                    logger.warn('Invalid JSON line in append log', { line, error: parseError });
+                }
+            }
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+        }
+
+        return [...records.values()];
     }
 
     private async appendToLog(record: ConversionRecord): Promise<void> {
@@ -206,20 +405,14 @@ export class FileBasedConversionTracker implements ConversionTracker {
 
     private async consolidateFiles(): Promise<void> {
         try {
-            // Read all records from both files
-            const allRecords: ConversionRecord[] = [];
-            const seenKeys = new Set<string>();
+            // Read all records from both files, later records replace earlier ones
+            const allRecords = new Map<string, ConversionRecord>();
 
             // Load from main file
             try {
                 const mainData = await fs.readFile(this.trackingFilePath, 'utf-8');
                 const mainRecords: ConversionRecord[] = JSON.parse(mainData);
-                mainRecords.forEach(record => {
-                    if (!seenKeys.has(record.sourceKey)) {
-                        allRecords.push(record);
-                        seenKeys.add(record.sourceKey);
-                    }
-                });
+                mainRecords.forEach(record => allRecords.set(record.sourceKey, record));
             } catch (error) {
                 // Main file doesn't exist
             }
@@ -231,10 +424,7 @@ export class FileBasedConversionTracker implements ConversionTracker {
             for (const line of lines) {
                 try {
                     const record: ConversionRecord = JSON.parse(line);
-                    if (!seenKeys.has(record.sourceKey)) {
-                        allRecords.push(record);
-                        seenKeys.add(record.sourceKey);
-                    }
+                    allRecords.set(record.sourceKey, record);
                 } catch (parseError) {
                     logger.warn('Invalid JSON line during consolidation', { line });
                 }
@@ -243,16 +433,16 @@ export class FileBasedConversionTracker implements ConversionTracker {
             // Write consolidated file
             await fs.writeFile(
                 this.trackingFilePath,
-                JSON.stringify(allRecords, null, 2),
+                JSON.stringify([...allRecords.values()], null, 2),
                 'utf-8'
             );
 
             // Clear append log
             await fs.writeFile(this.appendLogPath, '', 'utf-8');
 
-            logger.info(`Consolidated tracking files: ${allRecords.length} unique records`, {
+            logger.info(`Consolidated tracking files: ${allRecords.size} unique records`, {
                 operation: 'tracker.consolidate',
-                totalRecords: allRecords.length
+                totalRecords: allRecords.size
             });
         } catch (error) {
             logger.error('Failed to consolidate tracking files', {
@@ -268,4 +458,21 @@ export class FileBasedConversionTracker implements ConversionTracker {
             await this.processWriteQueue();
         }
     }
+
+    async checkWritable(): Promise<void> {
+        const logsDir = path.dirname(this.trackingFilePath);
+        await fs.mkdir(logsDir, { recursive: true });
+        await fs.access(logsDir, fs.constants.W_OK);
+
+        // Files that do not exist yet are created in the writable directory
+        for (const filePath of [this.trackingFilePath, this.appendLogPath, this.failuresFilePath]) {
+            try {
+                await fs.access(filePath, fs.constants.W_OK);
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                    throw error;
+                }
+            }
+        }
+    }
 }
\ No newline at end of file
@@ -1,15 +1,77 @@
 import { Config } from "../config";
-import { ConversionReport, ConversionResult } from "../models";
-import { ImageProcessor } from "./imageProcess";
-import { S3Object, S3Service } from "./s3Service";
-import { ConversionTracker, ConversionRecord } from "./conversionTracker";
+import {
+  ConversionEvent,
+  ConversionOutput,
+  ConversionReport,
+  ConversionResult,
+  EncodeOptions,
+  EncodingMode,
+  OutputFormat,
+  ResizeOptions,
+  SizeVariant,
+} from "../models";
+import { ImageProcessor, StreamingConversion } from "./imageProcess";
+import { S3Object, S3ObjectInfo, S3Service } from "./s3Service";
+import {
+  ConversionTracker,
+  ConversionRecord,
+  TrackedConversion,
+} from "./conversionTracker";
+import { LeaseStore, NoopLeaseStore } from "./leaseStore";
 import logger from "../utils/logger";
+import metrics from "../utils/metrics";
+import { SourceStreamError } from "../utils/error";
+import { isRetryableError, withRetry } from "../utils/retry";
 export interface ConversionService {
-  processAllImages(): Promise<ConversionReport>;
+  processAllImages(
+    onProgress?: (msg: string) => void,
+    options?: RunOptions
+  ): Promise<ConversionReport>;
+  retryFailedImages(errorType?: string): Promise<ConversionReport>;
+  reprocessImages(images: S3Object[]): Promise<ConversionReport>;
+  getPlannedOutputs(sourceKey: string): PlannedOutput[];
   processImage(s3Object: S3Object): Promise<ConversionResult>;
+  processSingleImage(image: S3Object): Promise<ConversionResult>;
   skipIfExists(targetKey: string): Promise<boolean>;
   mockupImage(): Promise<void>;
 }
+export interface PlannedOutput {
+  format: OutputFormat;
+  size: SizeVariant;
+  targetKey: string;
+}
+export interface RunOptions {
+  /** Only list sources below this prefix instead of the whole source prefix */
+  prefix?: string;
+  /** Report to update while the run progresses, for live counters */
+  report?: ConversionReport;
+  /** Receives a structured event for every image state change */
+  onEvent?: (event: ConversionEvent) => void;
+  /** Convert again even when the outputs are tracked or already exist */
+  force?: boolean;
+}
+interface ProcessOptions extends RunOptions {
+  /** Check outputs against the destination bucket instead of the tracker */
+  verifyOutputs?: boolean;
+}
+export function createConversionReport(): ConversionReport {
+  return {
+    totalImages: 0,
+    successful: 0,
+    updated: 0,
+    failed: 0,
+    skipped: 0,
+    totalSizeBefore: 0,
+    totalSizeAfter: 0,
+    averageCompressionRatio: 0,
+    processingDuration: 0,
+    formats: {},
+    skipReasons: {},
+    throughput: { imagesPerSecond: 0, bytesPerSecond: 0 },
+    peakMemory: { rss: 0, heapUsed: 0 },
+    errors: [],
+  };
+}
 interface ProcessingQueue {
   pending: S3Object[];
   processing: Set<string>;
@@ -23,15 +85,18 @@ export class BatchConversionService implements ConversionService {
   private readonly processingQueue: ProcessingQueue;
   private readonly dryRun: boolean;
   private readonly conversionTracker: ConversionTracker;
+  private readonly leaseStore: LeaseStore;
 
   constructor(
     s3Service: S3Service,
     imageProcessor: ImageProcessor,
     config: Config,
     conversionTracker: ConversionTracker,
-    dryRun: boolean = false
+    dryRun: boolean = false,
+    leaseStore: LeaseStore = new NoopLeaseStore()
   ) {
     this.s3Service = s3Service;
+    this.leaseStore = leaseStore;
     this.imageProcessor = imageProcessor;
     this.config = config;
     this.conversionTracker = conversionTracker;
@@ -44,41 +109,144 @@ export class BatchConversionService implements ConversionService {
     this.dryRun = dryRun;
   }
   async processAllImages(
+    onProgress?: (msg: string) => void,
+    options: RunOptions = {}
+  ): Promise<ConversionReport> {
+    return this.processImages(
+      () =>
+        this.s3Service.listImages(
+          this.config.aws.sourceBucket,
+          options.prefix ?? this.config.aws.sourcePrefix
+        ),
+      onProgress,
+      options
+    );
+  }
+
+  /**
+   * Reprocesses only the source keys whose last attempt failed, optionally
+   * limited to one error type (e.g. CorruptedImageError)
+   */
+  async retryFailedImages(
+    errorType?: string,
+    onProgress?: (msg: string) => void
+  ): Promise<ConversionReport> {
+    return this.processImages(
+      () => this.getFailedImages(errorType, onProgress),
+      onProgress
+    );
+  }
+
+  /**
+   * Converts the given sources again, producing only the outputs that are
+   * missing from the destination bucket, whatever the tracker says
+   */
+  async reprocessImages(
+    images: S3Object[],
+    onProgress?: (msg: string) => void
+  ): Promise<ConversionReport> {
+    return this.processImages(async () => images, onProgress, {
+      verifyOutputs: true,
+    });
+  }
+
+  private async getFailedImages(
+    errorType?: string,
     onProgress?: (msg: string) => void
+  ): Promise<S3Object[]> {
+    const failures = await this.conversionTracker.getFailures(errorType);
+    onProgress?.(`Found ${failures.length} failed images to retry`);
+
+    const images: S3Object[] = [];
+    const { concurrency } = this.config.processing;
+    for (let i = 0; i < failures.length; i += concurrency) {
+      const batch = failures.slice(i, i + concurrency);
+      const found = await Promise.all(
+        batch.map((failure) =>
+          this.s3Service.getObjectInfo(
+            this.config.aws.sourceBucket,
+            failure.sourceKey
+          )
+        )
+      );
+      found.forEach((image, index) => {
+        if (image) {
+          images.push(image);
+        } else {
+          logger.warn(
+            `Failed source no longer exists, not retrying: ${
+              batch[index]!.sourceKey
+            }`,
+            {
+              operation: "conversion.retryMissing",
+              sourceKey: batch[index]!.sourceKey,
+            }
+          );
+        }
+      });
+    }
+    return images;
+  }
+
+  private async processImages(
+    listImages: () => Promise<S3Object[]>,
+    onProgress?: (msg: string) => void,
+    options: ProcessOptions = {}
   ): Promise<ConversionReport> {
     const startTime = Date.now();
-    const report: ConversionReport = {
-      totalImages: 0,
-      successful: 0,
-      failed: 0,
-      skipped: 0,
-      totalSizeBefore: 0,
-      totalSizeAfter: 0,
-      averageCompressionRatio: 0,
-      processingDuration: 0,
-      errors: [],
-    };
+    const report = options.report ?? createConversionReport();
     try {
       onProgress?.("Starting process all images...");
+      const unavailableFormats = this.config.conversion.outputFormats.filter(
+        (format) => !this.imageProcessor.isOutputFormatAvailable(format)
+      );
+      if (unavailableFormats.length > 0) {
+        throw new Error(
+          `Output formats not supported by the image processor: ${unavailableFormats.join(
+            ", "
+          )}`
+        );
+      }
+
       // Load conversion tracking data
       await this.conversionTracker.loadConvertedKeys(onProgress);
 
-      const allImages = await this.s3Service.listImages(
-        this.config.aws.targetBucket,
-        this.config.aws.prefix || ""
-      );
+      const allImages = await listImages();
+      report.totalImages = allImages.length;
 
       if (allImages.length === 0) {
         report.processingDuration = Date.now() - startTime;
         return report;
       }
 
-      // Filter out already converted images
+      // Filter out oversized and already converted images
       const images = [];
       let alreadyConverted = 0;
+      let tooLarge = 0;
 
       for (const image of allImages) {
-        if (await this.conversionTracker.isConverted(image.key)) {
+        if (image.size > this.config.conversion.maxFileSize) {
+          tooLarge++;
+          logger.warn(
+            `Skipping image larger than max file size: ${image.key}`,
+            {
+              operation: "conversion.skip",
+              sourceKey: image.key,
+              reason: "too_large",
+              size: image.size,
+              maxFileSize: this.config.conversion.maxFileSize,
+            }
+          );
+          options.onEvent?.({
+            type: "image.skipped",
+            sourceKey: image.key,
+            reason: "too_large",
+          });
+        } else if (
+          !options.verifyOutputs &&
+          !options.force &&
+          (await this.isFullyConverted(image))
+        ) {
           alreadyConverted++;
           logger.info(`Skipping already converted image: ${image.key}`, {
             operation: "conversion.skip",
@@ -94,12 +262,18 @@ export class BatchConversionService implements ConversionService {
         operation: "batch.filter",
         totalImages: allImages.length,
         alreadyConverted,
+        tooLarge,
         toProcess: images.length,
       });
       onProgress?.(
-        `Found ${images.length} images to process (skipped ${alreadyConverted} already converted)`
+        `Found ${images.length} images to process (skipped ${alreadyConverted} already converted, ${tooLarge} too large)`
       );
 
+      if (tooLarge > 0) {
+        report.skipped += tooLarge;
+        report.skipReasons.too_large = tooLarge;
+      }
+
       if (images.length === 0) {
         onProgress?.(
           `All images have already been converted, nothing to process`
@@ -117,16 +291,18 @@ export class BatchConversionService implements ConversionService {
       this.processingQueue.completed.clear();
       this.processingQueue.failed.clear();
 
-      await this.processConcurrentBatches(report, onProgress);
+      await this.processConcurrentBatches(report, onProgress, options);
 
       // Calculate average compression ratio
-      if (report.successful > 0 && report.totalSizeBefore > 0) {
+      const converted = report.successful + report.updated;
+      if (converted > 0 && report.totalSizeBefore > 0) {
         report.averageCompressionRatio =
           (report.totalSizeBefore - report.totalSizeAfter) /
           report.totalSizeBefore;
       }
 
       report.processingDuration = Date.now() - startTime;
+      this.calculateThroughput(report);
 
       // Flush any remaining tracking records
       await this.conversionTracker.flush();
@@ -135,19 +311,23 @@ export class BatchConversionService implements ConversionService {
         operation: "batch.complete",
         duration: report.processingDuration,
         successful: report.successful,
+        updated: report.updated,
         failed: report.failed,
         skipped: report.skipped,
         totalImages: report.totalImages,
+        imagesPerSecond: report.throughput.imagesPerSecond,
+        peakRss: report.peakMemory.rss,
+        peakHeapUsed: report.peakMemory.heapUsed,
       });
       onProgress?.(
         `Conversion completed: ${report.successful} successful, ${
-          report.failed
-        } failed, ${report.skipped} skipped in ${(
+          report.updated
+        } updated, ${report.failed} failed, ${report.skipped} skipped in ${(
           report.processingDuration / 1000
         ).toFixed(1)}s`
       );
 
-      if (report.successful > 0) {
+      if (converted > 0) {
         const sizeSavedMB =
           (report.totalSizeBefore - report.totalSizeAfter) / (1024 * 1024);
         const compressionPercent = (
@@ -180,56 +360,147 @@ export class BatchConversionService implements ConversionService {
   }
   private async processConcurrentBatches(
     report: ConversionReport,
-    onProgress?: (msg: string) => void
+    onProgress?: (msg: string) => void,
+    options: ProcessOptions = {}
   ): Promise<void> {
-    const activePromises = new Map<string, Promise<ConversionResult>>();
+    const activePromises = new Map<string, Promise<void>>();
+    const { concurrency, memory } = this.config.processing;
+    let concurrencyLimit = concurrency;
+    let inFlightBytes = 0;
+    metrics.queuePending.inc(this.processingQueue.pending.length);
 
     while (this.processingQueue.pending.length > 0 || activePromises.size > 0) {
-      // Check memory usage and adjust batch size if needed
+      // Check memory usage and adjust concurrency if needed
+      concurrencyLimit = this.adjustConcurrency(
+        concurrencyLimit,
+        this.sampleMemory(report),
+        onProgress
+      );
 
       // Start new processing tasks up to concurrency limit
-      while (this.processingQueue.pending.length > 0) {
-        const image = this.processingQueue.pending.shift()!;
+      while (
+        this.processingQueue.pending.length > 0 &&
+        activePromises.size < concurrencyLimit
+      ) {
+        const image = this.processingQueue.pending[0]!;
 
+        // Always let one task run so a single large image cannot stall the pool
+        if (
+          activePromises.size > 0 &&
+          inFlightBytes + image.size > memory.maxInFlightBytes
+        ) {
+          break;
+        }
+
+        this.processingQueue.pending.shift();
         this.processingQueue.processing.add(image.key);
+        inFlightBytes += image.size;
+        metrics.queuePending.dec();
+        metrics.queueProcessing.inc();
+
         const promise = this.processImageWithTracking(
           image,
           report,
-          onProgress
-        );
+          onProgress,
+          options
+        ).then(() => {
+          // Clean up completed task
+          inFlightBytes -= image.size;
+          activePromises.delete(image.key);
+          this.processingQueue.processing.delete(image.key);
+          metrics.queueProcessing.dec();
+        });
         activePromises.set(image.key, promise);
-
-        // Don't overwhelm the system - small delay between starts
-        await new Promise((resolve) => setTimeout(resolve, 10));
       }
 
       // Wait for at least one task to complete
       if (activePromises.size > 0) {
-        const completedKey = await Promise.race(
-          Array.from(activePromises.entries()).map(async ([key, promise]) => {
-            await promise;
-            return key;
-          })
-        );
-
-        // Clean up completed task
-        activePromises.delete(completedKey);
-        this.processingQueue.processing.delete(completedKey);
+        await Promise.race(activePromises.values());
       }
     }
+
+    this.sampleMemory(report);
+  }
+  private sampleMemory(report: ConversionReport): NodeJS.MemoryUsage {
+    const usage = process.memoryUsage();
+    report.peakMemory.rss = Math.max(report.peakMemory.rss, usage.rss);
+    report.peakMemory.heapUsed = Math.max(
+      report.peakMemory.heapUsed,
+      usage.heapUsed
+    );
+    return usage;
+  }
+  private adjustConcurrency(
+    currentLimit: number,
+    usage: NodeJS.MemoryUsage,
+    onProgress?: (msg: string) => void
+  ): number {
+    const { concurrency, memory } = this.config.processing;
+    const rssRatio = usage.rss / memory.maxRssBytes;
+    const heapRatio = usage.heapUsed / memory.maxHeapUsedBytes;
+    const pressure = Math.max(rssRatio, heapRatio);
+
+    // Halve in-flight work above the limits, recover slowly once below 80%
+    let nextLimit = currentLimit;
+    if (pressure >= 1) {
+      nextLimit = Math.max(1, Math.floor(currentLimit / 2));
+    } else if (pressure < 0.8) {
+      nextLimit = Math.min(concurrency, currentLimit + 1);
+    }
+
+    if (nextLimit < currentLimit) {
+      logger.warn("Memory pressure detected, reducing concurrency", {
+        operation: "batch.throttle",
+        rss: usage.rss,
+        heapUsed: usage.heapUsed,
+        previousConcurrency: currentLimit,
+        concurrency: nextLimit,
+      });
+      onProgress?.(
+        `Memory pressure detected, reducing concurrency to ${nextLimit}`
+      );
+    }
+
+    return nextLimit;
+  }
+  private calculateThroughput(report: ConversionReport): void {
+    const seconds = report.processingDuration / 1000;
+    if (seconds <= 0) {
+      return;
+    }
+    const processed =
+      report.successful + report.updated + report.failed + report.skipped;
+    report.throughput = {
+      imagesPerSecond: Number((processed / seconds).toFixed(2)),
+      bytesPerSecond: Math.round(report.totalSizeBefore / seconds),
+    };
   }
   private async processImageWithTracking(
     image: S3Object,
     report: ConversionReport,
-    onProgress?: (msg: string) => void
+    onProgress?: (msg: string) => void,
+    options: ProcessOptions = {}
   ): Promise<ConversionResult> {
+    options.onEvent?.({
+      type: "image.started",
+      sourceKey: image.key,
+      size: image.size,
+    });
     try {
-      const result = await this.processImage(image, onProgress);
+      const result = await this.processLeasedImage(image, onProgress, options);
+      this.updateFormatReport(report, result.outputs);
+      this.emitResultEvent(result, options.onEvent);
+      metrics.recordConversion(result);
 
       // Update report based on result
       switch (result.status) {
         case "success":
-          report.successful++;
+        case "updated":
+          if (result.status === "updated") {
+            report.updated++;
+          } else {
+            report.successful++;
+          }
           report.totalSizeBefore += result.originalSize;
           report.totalSizeAfter += result.convertedSize;
           this.processingQueue.completed.add(image.key);
@@ -240,9 +511,14 @@ export class BatchConversionService implements ConversionService {
             report.errors.push(`${result.sourceKey}: ${result.error}`);
           }
           this.processingQueue.failed.add(image.key);
+          await this.recordFailure(image, result);
           break;
         case "skipped":
           report.skipped++;
+          if (result.skipReason) {
+            report.skipReasons[result.skipReason] =
+              (report.skipReasons[result.skipReason] ?? 0) + 1;
+          }
           this.processingQueue.completed.add(image.key);
           break;
       }
@@ -261,168 +537,743 @@ export class BatchConversionService implements ConversionService {
       });
 
       // Return a failed result
-      return {
+      const result: ConversionResult = {
         sourceKey: image.key,
-        targetKey: this.generateTargetKey(image.key),
+        targetKey: this.getPlannedOutputs(image.key)[0]!.targetKey,
         originalSize: image.size,
         convertedSize: 0,
         compressionRatio: 0,
         processingTime: 0,
         status: "failed",
+        attempts: 0,
+        outputs: [],
         error: errorMessage,
+        errorType: error instanceof Error ? error.name : "Error",
       };
+      this.emitResultEvent(result, options.onEvent);
+      metrics.recordConversion(result);
+      await this.recordFailure(image, result);
+      return result;
+    }
+  }
+  private emitResultEvent(
+    result: ConversionResult,
+    onEvent?: (event: ConversionEvent) => void
+  ): void {
+    if (!onEvent) {
+      return;
+    }
+    switch (result.status) {
+      case "success":
+      case "updated":
+        onEvent({
+          type: "image.converted",
+          sourceKey: result.sourceKey,
+          status: result.status,
+          originalSize: result.originalSize,
+          convertedSize: result.convertedSize,
+          compressionRatio: result.compressionRatio,
+          processingTime: result.processingTime,
+          outputs: result.outputs
+            .filter((output) => output.status === "success")
+            .map((output) => ({
+              targetKey: output.targetKey,
+              format: output.format,
+              size: output.size,
+              convertedSize: output.convertedSize,
+            })),
+        });
+        break;
+      case "skipped":
+        onEvent({
+          type: "image.skipped",
+          sourceKey: result.sourceKey,
+          reason: result.skipReason ?? "already_exists",
+        });
+        break;
+      case "failed":
+        onEvent({
+          type: "image.failed",
+          sourceKey: result.sourceKey,
+          errorType: result.errorType ?? "Error",
+          error: result.error ?? "Unknown error",
+        });
+        break;
+    }
+  }
+  /**
+   * Converts one image outside of a run, e.g. for uploads and S3 events,
+   * with the same lease and failure tracking as images of a run
+   */
+  async processSingleImage(image: S3Object): Promise<ConversionResult> {
+    const result = await this.processLeasedImage(image);
+    metrics.recordConversion(result);
+    if (result.status === "failed") {
+      await this.recordFailure(image, result);
+    }
+    return result;
+  }
+  /**
+   * Converts the image while holding its lease. Keys claimed by another
+   * live runner are skipped; dry runs write nothing and claim nothing.
+   */
+  private async processLeasedImage(
+    image: S3Object,
+    onProgress?: (msg: string) => void,
+    options: ProcessOptions = {}
+  ): Promise<ConversionResult> {
+    if (this.dryRun) {
+      return this.processImage(image, onProgress, options);
+    }
+
+    if (!(await this.leaseStore.acquire(image.key))) {
+      logger.info(`Skipping image claimed by another runner: ${image.key}`, {
+        operation: "conversion.skip",
+        sourceKey: image.key,
+        reason: "claimed_elsewhere",
+      });
+      return {
+        sourceKey: image.key,
+        targetKey: this.getPlannedOutputs(image.key)[0]!.targetKey,
+        originalSize: image.size,
+        convertedSize: 0,
+        compressionRatio: 0,
+        processingTime: 0,
+        status: "skipped",
+        skipReason: "claimed_elsewhere",
+        attempts: 0,
+        outputs: [],
+      };
+    }
+
+    try {
+      return await this.processImage(image, onProgress, options);
+    } finally {
+      await this.leaseStore.release(image.key);
+    }
+  }
+  private async recordFailure(
+    image: S3Object,
+    result: ConversionResult
+  ): Promise<void> {
+    if (this.dryRun) {
+      return;
+    }
+    try {
+      await this.conversionTracker.markAsFailed({
+        sourceKey: image.key,
+        errorType: result.errorType ?? "Error",
+        message: result.error ?? "Unknown error",
+        attempts: result.attempts,
+        failedAt: new Date().toISOString(),
+        sourceEtag: image.etag,
+      });
+    } catch (error) {
+      logger.warn(`Failed to record conversion failure: ${image.key}`, {
+        operation: "conversion.failureTrackingError",
+        sourceKey: image.key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  private updateFormatReport(
+    report: ConversionReport,
+    outputs: ConversionOutput[]
+  ): void {
+    for (const output of outputs) {
+      const formatReport = report.formats[output.format] ?? {
+        converted: 0,
+        skipped: 0,
+        totalSizeAfter: 0,
+      };
+      if (output.status === "success") {
+        formatReport.converted++;
+        formatReport.totalSizeAfter += output.convertedSize;
+      } else {
+        formatReport.skipped++;
+      }
+      report.formats[output.format] = formatReport;
     }
   }
   async processImage(
     s3Object: S3Object,
-    onProgress?: (msg: string) => void
+    onProgress?: (msg: string) => void,
+    options: ProcessOptions = {}
   ): Promise<ConversionResult> {
     const startTime = Date.now();
     const sourceKey = s3Object.key;
-    const targetKey = this.generateTargetKey(sourceKey);
+    const plannedOutputs = this.getPlannedOutputs(sourceKey);
 
     const result: ConversionResult = {
       sourceKey,
-      targetKey,
+      targetKey: plannedOutputs[0]!.targetKey,
       originalSize: s3Object.size,
       convertedSize: 0,
       compressionRatio: 0,
       processingTime: 0,
       status: "failed",
+      attempts: 0,
+      outputs: [],
     };
 
     try {
-      // Check if already converted (duplicate detection)
-      if (await this.skipIfExists(targetKey)) {
+      if (s3Object.size > this.config.conversion.maxFileSize) {
         result.status = "skipped";
+        result.skipReason = "too_large";
         result.processingTime = Date.now() - startTime;
         return result;
       }
 
-      const imageBuffer = await this.s3Service.downloadImage(
-        this.config.aws.targetBucket,
+      // A changed source invalidates every output it produced before
+      const trackedState = await this.conversionTracker.getConversionState(
         sourceKey
       );
+      const sourceChanged = this.hasSourceChanged(s3Object, trackedState);
+      if (sourceChanged) {
+        logger.info(`Source changed since last conversion: ${sourceKey}`, {
+          operation: "conversion.sourceChanged",
+          sourceKey,
+          etag: s3Object.etag,
+          trackedEtag: trackedState?.sourceEtag,
+        });
+      }
 
-      // Validate image format and get metadata
-      const isValid = await this.imageProcessor.validateImageFormat(
-        imageBuffer
+      // Check which outputs are already tracked or exist (duplicate detection)
+      const trackedOutputs = new Set(
+        options.verifyOutputs ? [] : trackedState?.targetKeys ?? []
       );
+      const pendingOutputs: PlannedOutput[] = [];
+      let untrackedOutputs = 0;
+      const reconvert = sourceChanged || options.force === true;
+      for (const planned of plannedOutputs) {
+        const tracked = !reconvert && trackedOutputs.has(planned.targetKey);
+        const existing =
+          reconvert || tracked
+            ? undefined
+            : await this.findExistingOutput(planned.targetKey);
+        if (!tracked && !existing) {
+          pendingOutputs.push(planned);
+          continue;
+        }
+        if (existing) {
+          untrackedOutputs++;
+        }
+        const convertedSize = existing?.size ?? 0;
+        result.outputs.push({
+          ...planned,
+          width: 0,
+          height: 0,
+          contentType: this.imageProcessor.getOutputContentType(planned.format),
+          convertedSize,
+          compressionRatio: existing
+            ? (result.originalSize - convertedSize) / result.originalSize
+            : 0,
+          status: "skipped",
+        });
+      }
 
-      if (!isValid) {
-        result.error = "Unsupported or invalid image format";
+      if (pendingOutputs.length === 0) {
+        // Track outputs found in the bucket so later runs skip the HEADs
+        if (untrackedOutputs > 0 && !this.dryRun) {
+          const primaryOutput = result.outputs[0]!;
+          result.convertedSize = primaryOutput.convertedSize;
+          result.compressionRatio = primaryOutput.compressionRatio;
+          await this.conversionTracker.markAsConverted(
+            this.toConversionRecord(s3Object, result, primaryOutput)
+          );
+        }
+        result.status = "skipped";
+        result.skipReason = "already_exists";
         result.processingTime = Date.now() - startTime;
         return result;
       }
 
-      // Get image metadata for additional information
-      const metadata = await this.imageProcessor.getImageMetadata(imageBuffer);
-
-      // Convert to WebP
-      const webpBuffer = await this.imageProcessor.convertToWebP(
-        imageBuffer,
-        this.config.conversion.quality
-      );
-      result.convertedSize = webpBuffer.length;
+      // Large objects are streamed through sharp into multipart uploads
+      if (s3Object.size > this.config.conversion.streamingThreshold) {
+        await this.convertStreamed(
+          s3Object,
+          result,
+          pendingOutputs,
+          onProgress
+        );
+      } else if (
+        !(await this.convertBuffered(
+          s3Object,
+          result,
+          pendingOutputs,
+          onProgress
+        ))
+      ) {
+        result.error = "Unsupported or invalid image format";
+        result.errorType = "UnsupportedFormatError";
+        result.processingTime = Date.now() - startTime;
+        return result;
+      }
 
-      // Calculate compression ratio
-      result.compressionRatio =
-        (result.originalSize - result.convertedSize) / result.originalSize;
+      // The first planned output is the primary one when it was produced now
+      const primaryOutput =
+        result.outputs.find(
+          (output) =>
+            output.targetKey === plannedOutputs[0]!.targetKey &&
+            output.status === "success"
+        ) ?? result.outputs.find((output) => output.status === "success")!;
+      result.targetKey = primaryOutput.targetKey;
+      result.convertedSize = primaryOutput.convertedSize;
+      result.compressionRatio = primaryOutput.compressionRatio;
 
       if (!this.dryRun) {
-        // Prepare metadata for S3 upload
-        const uploadMetadata = {
-          "original-format": metadata.originalFormat,
-          "original-size": result.originalSize.toString(),
-          "converted-size": result.convertedSize.toString(),
-          "compression-ratio": result.compressionRatio.toFixed(4),
-          "conversion-quality": this.config.conversion.quality.toString(),
-          "conversion-timestamp": new Date().toISOString(),
-        };
-
-        // Upload converted image to target bucket
-        await this.s3Service.uploadImage(
-          this.config.aws.targetBucket,
-          targetKey,
-          webpBuffer,
-          uploadMetadata
+        // Track the successful conversion together with every known variant
+        await this.conversionTracker.markAsConverted(
+          this.toConversionRecord(s3Object, result, primaryOutput)
         );
-        onProgress?.(`Process converted image: ${sourceKey} -> ${targetKey}`);
-        // Track the successful conversion
-        const conversionRecord: ConversionRecord = {
-          sourceKey,
-          targetKey,
-          convertedAt: new Date().toISOString(),
-          originalSize: result.originalSize,
-          convertedSize: result.convertedSize,
-          compressionRatio: result.compressionRatio,
-        };
-
-        await this.conversionTracker.markAsConverted(conversionRecord);
       } else {
-        console.info(`DRY RUN: Would upload converted image`, {
-          operation: "conversion.dryrun",
-          sourceKey,
-          targetKey,
-          originalSize: result.originalSize,
-          convertedSize: result.convertedSize,
-          compressionRatio: result.compressionRatio,
-        });
-
         // In dry run mode, don't actually track the conversion
         console.info(`DRY RUN: Would track conversion: ${sourceKey}`, {
           operation: "conversion.dryrun.track",
           sourceKey,
-          targetKey,
+          targetKey: result.targetKey,
         });
       }
 
-      result.status = "success";
+      result.status = sourceChanged ? "updated" : "success";
       result.processingTime = Date.now() - startTime;
 
       return result;
     } catch (error) {
       result.error = error instanceof Error ? error.message : "Unknown error";
+      result.errorType = error instanceof Error ? error.name : "Error";
       result.processingTime = Date.now() - startTime;
       return result;
     }
   }
-  private generateTargetKey(sourceKey: string): string {
-    const lastDotIndex = sourceKey.lastIndexOf(".");
-    if (lastDotIndex === -1) {
-      // No extension found, just append .webp
-      return `${sourceKey}.webp`;
+  private async convertBuffered(
+    s3Object: S3Object,
+    result: ConversionResult,
+    pendingOutputs: PlannedOutput[],
+    onProgress?: (msg: string) => void
+  ): Promise<boolean> {
+    const { sourceKey } = result;
+    const imageBuffer = await this.runWithRetry("download", result, () =>
+      this.s3Service.downloadImage(this.config.aws.sourceBucket, sourceKey)
+    );
+
+    // Validate image format and get metadata
+    const isValid = await this.imageProcessor.validateImageFormat(imageBuffer);
+
+    if (!isValid) {
+      return false;
+    }
+
+    // Get image metadata for additional information
+    const metadata = await this.imageProcessor.getImageMetadata(imageBuffer);
+    const encodingMode = await this.resolveEncodingMode(() =>
+      this.imageProcessor.selectEncodingMode(imageBuffer)
+    );
+
+    // Encode the downloaded source once per requested format and size
+    for (const planned of pendingOutputs) {
+      const contentType = this.imageProcessor.getOutputContentType(
+        planned.format
+      );
+      const converted = await this.runWithRetry("conversion", result, () =>
+        this.imageProcessor.convertToFormat(
+          imageBuffer,
+          planned.format,
+          this.getEncodeOptions(planned, encodingMode)
+        )
+      );
+
+      const output: ConversionOutput = {
+        ...planned,
+        width: converted.width,
+        height: converted.height,
+        contentType,
+        convertedSize: converted.buffer.length,
+        compressionRatio:
+          (result.originalSize - converted.buffer.length) / result.originalSize,
+        encodingMode: converted.encodingMode,
+        quality: converted.quality,
+        similarity: converted.similarity,
+        status: "success",
+      };
+
+      if (!this.dryRun) {
+        // Prepare metadata for S3 upload
+        const uploadMetadata = {
+          ...this.getUploadMetadata(
+            s3Object,
+            result,
+            metadata.originalFormat,
+            planned,
+            encodingMode
+          ),
+          "output-width": output.width.toString(),
+          "output-height": output.height.toString(),
+          "converted-size": output.convertedSize.toString(),
+          "compression-ratio": output.compressionRatio.toFixed(4),
+          "conversion-quality": converted.quality.toString(),
+          ...(converted.similarity !== undefined && {
+            "conversion-similarity": converted.similarity.toFixed(4),
+          }),
+        };
+
+        // Upload converted image to destination bucket
+        await this.runWithRetry("upload", result, () =>
+          this.s3Service.uploadImage(
+            this.config.aws.destinationBucket,
+            planned.targetKey,
+            converted.buffer,
+            uploadMetadata,
+            contentType
+          )
+        );
+        onProgress?.(
+          `Process converted image: ${sourceKey} -> ${planned.targetKey}`
+        );
+      } else {
+        this.logDryRunUpload(result, output);
+      }
+
+      result.outputs.push(output);
     }
 
-    // Replace extension with .webp
-    const baseName = sourceKey.substring(0, lastDotIndex);
-    return `${baseName}.webp`;
+    return true;
   }
-  async skipIfExists(targetKey: string): Promise<boolean> {
-    try {
-      // Try to get metadata of the target object
-      // If it exists, we'll get metadata; if not, it will throw an error
-      const images = await this.s3Service.listImages(
-        this.config.aws.targetBucket,
-        targetKey
+  private async convertStreamed(
+    s3Object: S3Object,
+    result: ConversionResult,
+    pendingOutputs: PlannedOutput[],
+    onProgress?: (msg: string) => void
+  ): Promise<void> {
+    const { sourceKey } = result;
+    const remainingOutputs = [...pendingOutputs];
+
+    // The search needs every candidate in memory, which streaming avoids
+    if (this.config.conversion.targetQuality.ssim > 0) {
+      logger.warn(
+        `Target SSIM not applied to streamed image, using quality ${this.config.conversion.quality}: ${sourceKey}`,
+        {
+          operation: "conversion.targetQualitySkipped",
+          sourceKey,
+          size: s3Object.size,
+          streamingThreshold: this.config.conversion.streamingThreshold,
+          quality: this.config.conversion.quality,
+        }
+      );
+    }
+
+    // A source that fails while it is read is downloaded again, keeping the
+    // outputs that were already uploaded
+    await this.runWithRetry(
+      "download",
+      result,
+      async () => {
+        const input = await this.s3Service.downloadImageStream(
+          this.config.aws.sourceBucket,
+          sourceKey
+        );
+        try {
+          await this.convertSourceStream(
+            this.imageProcessor.createStreamingConversion(input),
+            s3Object,
+            result,
+            remainingOutputs,
+            onProgress
+          );
+        } finally {
+          // Stops the download when an output failed before the source ended
+          input.destroy();
+        }
+      },
+      (error) => error instanceof SourceStreamError || isRetryableError(error)
+    );
+  }
+  private async convertSourceStream(
+    conversion: StreamingConversion,
+    s3Object: S3Object,
+    result: ConversionResult,
+    remainingOutputs: PlannedOutput[],
+    onProgress?: (msg: string) => void
+  ): Promise<void> {
+    const { sourceKey } = result;
+    const metadata = await conversion.getMetadata();
+    const encodingMode = await this.resolveEncodingMode(() =>
+      conversion.selectEncodingMode()
+    );
+
+    while (remainingOutputs.length > 0) {
+      const planned = remainingOutputs[0]!;
+      const contentType = this.imageProcessor.getOutputContentType(
+        planned.format
+      );
+
+      // Sizes are unknown until the stream ends, so they are not in S3 metadata
+      const uploadMetadata = this.getUploadMetadata(
+        s3Object,
+        result,
+        metadata.originalFormat,
+        planned,
+        encodingMode
+      );
+
+      // A failed upload consumed its stream, so each attempt re-encodes. A
+      // failed source cannot be re-encoded and is downloaded again instead.
+      const info = await this.runWithRetry(
+        "upload",
+        result,
+        async () => {
+          const converted = conversion.convert(
+            planned.format,
+            this.getEncodeOptions(planned, encodingMode)
+          );
+          try {
+            if (this.dryRun) {
+              converted.stream.resume();
+              return await converted.info;
+            }
+            const [, outputInfo] = await Promise.all([
+              this.s3Service.uploadImageStream(
+                this.config.aws.destinationBucket,
+                planned.targetKey,
+                converted.stream,
+                uploadMetadata,
+                contentType
+              ),
+              converted.info,
+            ]);
+            return outputInfo;
+          } catch (error) {
+            throw conversion.sourceError ?? error;
+          }
+        },
+        (error) =>
+          !(error instanceof SourceStreamError) && isRetryableError(error)
       );
 
-      // Check if exact key exists
-      const exists = images.some((image) => image.key === targetKey);
+      const output: ConversionOutput = {
+        ...planned,
+        width: info.width,
+        height: info.height,
+        contentType,
+        convertedSize: info.size,
+        compressionRatio:
+          (result.originalSize - info.size) / result.originalSize,
+        encodingMode: info.encodingMode,
+        quality: info.quality,
+        status: "success",
+      };
 
-      if (exists) {
-        return true;
+      if (!this.dryRun) {
+        onProgress?.(
+          `Process converted image: ${sourceKey} -> ${planned.targetKey}`
+        );
+      } else {
+        this.logDryRunUpload(result, output);
       }
 
+      result.outputs.push(output);
+      remainingOutputs.shift();
+    }
+  }
+  private async resolveEncodingMode(
+    selectEncodingMode: () => Promise<EncodingMode>
+  ): Promise<EncodingMode> {
+    const { encodingMode } = this.config.conversion;
+    return encodingMode === "auto" ? selectEncodingMode() : encodingMode;
+  }
+  private getEncodeOptions(
+    planned: PlannedOutput,
+    encodingMode: EncodingMode
+  ): EncodeOptions {
+    const { quality, targetQuality } = this.config.conversion;
+    return {
+      quality,
+      resize: this.getResizeOptions(planned.size),
+      encodingMode,
+      targetQuality: targetQuality.ssim > 0 ? targetQuality : undefined,
+    };
+  }
+  private getResizeOptions(size: SizeVariant): ResizeOptions | undefined {
+    if (size === "original") {
+      return undefined;
+    }
+    const { fit, withoutEnlargement } = this.config.conversion.resize;
+    return { width: size, fit, withoutEnlargement };
+  }
+  private toConversionRecord(
+    s3Object: S3Object,
+    result: ConversionResult,
+    primaryOutput: ConversionOutput
+  ): ConversionRecord {
+    return {
+      sourceKey: result.sourceKey,
+      targetKey: result.targetKey,
+      convertedAt: new Date().toISOString(),
+      originalSize: result.originalSize,
+      convertedSize: result.convertedSize,
+      compressionRatio: result.compressionRatio,
+      sourceEtag: s3Object.etag,
+      sourceLastModified: s3Object.lastModified.toISOString(),
+      encodingMode: primaryOutput.encodingMode,
+      quality: primaryOutput.quality,
+      similarity: primaryOutput.similarity,
+      outputs: result.outputs.map((output) => ({
+        format: output.format,
+        size: output.size,
+        targetKey: output.targetKey,
+        convertedSize: output.convertedSize,
+        quality: output.quality,
+        similarity: output.similarity,
+      })),
+    };
+  }
+  private getUploadMetadata(
+    s3Object: S3Object,
+    result: ConversionResult,
+    originalFormat: string,
+    planned: PlannedOutput,
+    encodingMode: EncodingMode
+  ): Record<string, string> {
+    return {
+      "original-format": originalFormat,
+      "output-format": planned.format,
+      "output-size": planned.size.toString(),
+      "original-size": result.originalSize.toString(),
+      "source-etag": s3Object.etag,
+      "source-last-modified": s3Object.lastModified.toISOString(),
+      "conversion-quality": this.config.conversion.quality.toString(),
+      "encoding-mode": encodingMode,
+      "conversion-timestamp": new Date().toISOString(),
+    };
+  }
+  private logDryRunUpload(
+    result: ConversionResult,
+    output: ConversionOutput
+  ): void {
+    console.info(`DRY RUN: Would upload converted image`, {
+      operation: "conversion.dryrun",
+      sourceKey: result.sourceKey,
+      targetKey: output.targetKey,
+      format: output.format,
+      size: output.size,
+      originalSize: result.originalSize,
+      convertedSize: output.convertedSize,
+      compressionRatio: output.compressionRatio,
+    });
+  }
+  private async runWithRetry<T>(
+    step: "download" | "conversion" | "upload",
+    result: ConversionResult,
+    operation: () => Promise<T>,
+    isRetryable?: (error: unknown) => boolean
+  ): Promise<T> {
+    const { retryAttempts, retryDelay } = this.config.processing;
+    return withRetry(
+      (attempt) => {
+        result.attempts = Math.max(result.attempts, attempt);
+        return operation();
+      },
+      {
+        retryAttempts,
+        retryDelay,
+        isRetryable,
+        onRetry: (error, attempt, delay) => {
+          logger.warn(`Retrying ${step} for ${result.sourceKey}`, {
+            operation: `conversion.retry.${step}`,
+            sourceKey: result.sourceKey,
+            attempt,
+            delay,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        },
+      }
+    );
+  }
+  getPlannedOutputs(sourceKey: string): PlannedOutput[] {
+    const { outputFormats, resize } = this.config.conversion;
+    return outputFormats.flatMap((format) =>
+      resize.sizes.map((size) => ({
+        format,
+        size,
+        targetKey: this.generateTargetKey(sourceKey, format, size),
+      }))
+    );
+  }
+  private async isFullyConverted(image: S3Object): Promise<boolean> {
+    const trackedState = await this.conversionTracker.getConversionState(
+      image.key
+    );
+    if (!trackedState || this.hasSourceChanged(image, trackedState)) {
       return false;
+    }
+    const trackedOutputs = new Set(trackedState.targetKeys);
+    return this.getPlannedOutputs(image.key).every((planned) =>
+      trackedOutputs.has(planned.targetKey)
+    );
+  }
+  private hasSourceChanged(
+    image: S3Object,
+    trackedState: TrackedConversion | undefined
+  ): boolean {
+    if (!trackedState) {
+      return false;
+    }
+    // Records from before source tracking cannot tell, treat them as unchanged
+    if (trackedState.sourceEtag) {
+      return trackedState.sourceEtag !== image.etag;
+    }
+    if (trackedState.sourceLastModified) {
+      return (
+        new Date(trackedState.sourceLastModified).getTime() !==
+        image.lastModified.getTime()
+      );
+    }
+    return false;
+  }
+  private generateTargetKey(
+    sourceKey: string,
+    format: OutputFormat,
+    size: SizeVariant = "original"
+  ): string {
+    // Keep the path relative to the source prefix under the destination prefix
+    const { sourcePrefix, destinationPrefix } = this.config.aws;
+    const relativeKey = sourceKey.startsWith(sourcePrefix)
+      ? sourceKey.substring(sourcePrefix.length)
+      : sourceKey;
+    const destinationKey = `${destinationPrefix}${relativeKey}`;
+
+    // Resized variants get a width suffix, e.g. photos/hero-640w.webp
+    const suffix = size === "original" ? "" : `-${size}w`;
+    const lastSlashIndex = destinationKey.lastIndexOf("/");
+    const lastDotIndex = destinationKey.lastIndexOf(".");
+    if (lastDotIndex <= lastSlashIndex) {
+      // No extension found, just append the output extension
+      return `${destinationKey}${suffix}.${format}`;
+    }
+
+    // Replace extension with the output extension
+    const baseName = destinationKey.substring(0, lastDotIndex);
+    return `${baseName}${suffix}.${format}`;
+  }
+  async skipIfExists(targetKey: string): Promise<boolean> {
+    return (await this.findExistingOutput(targetKey)) !== undefined;
+  }
+  private async findExistingOutput(
+    targetKey: string
+  ): Promise<S3ObjectInfo | undefined> {
+    try {
+      return await this.s3Service.getObjectInfo(
+        this.config.aws.destinationBucket,
+        targetKey
+      );
     } catch (error) {
       console.log("Error in skipIfExists:", error);
-      return false;
+      return undefined;
     }
   }
   async mockupImage(onProgress?: (message: string) => void): Promise<void> {
-    const bucketName = this.config.aws.targetBucket;
-    const prefix = this.config.aws.prefix || "mockup/";
+    const bucketName = this.config.aws.sourceBucket;
+    const prefix = this.config.aws.sourcePrefix || "mockup/";
     const totalImages = this.config.mockup?.imageCount || 0;
 
     try {
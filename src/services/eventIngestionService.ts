@@ -0,0 +1,420 @@
+import axios from "axios";
+import crypto from "crypto";
+import { Config } from "../config";
+import { EventQueueFullError, InvalidEventError } from "../utils/error";
+import { formatFromKey, normalizeFormat } from "../utils/imageFormat";
+import logger from "../utils/logger";
+import metrics from "../utils/metrics";
+import { ConversionService } from "./convertionService";
+import { S3Object, S3Service } from "./s3Service";
+
+/** Object versions remembered to drop redelivered events */
+const MAX_SEEN_EVENTS = 10000;
+/** SNS only sends confirmation links on its own regional endpoints */
+const SNS_HOST_PATTERN = /^sns\.[a-z0-9-]+\.amazonaws\.com(\.cn)?$/;
+/** Signed fields of SNS messages by type, in the order they are signed */
+const SNS_SIGNED_FIELDS: Record<string, string[]> = {
+  Notification: [
+    "Message",
+    "MessageId",
+    "Subject",
+    "Timestamp",
+    "TopicArn",
+    "Type",
+  ],
+  SubscriptionConfirmation: [
+    "Message",
+    "MessageId",
+    "SubscribeURL",
+    "Timestamp",
+    "Token",
+    "TopicArn",
+    "Type",
+  ],
+};
+const SNS_SIGNATURE_ALGORITHMS: Record<string, string> = {
+  "1": "RSA-SHA1",
+  "2": "RSA-SHA256",
+};
+
+export interface IngestionResult {
+  /** Keys queued for conversion */
+  accepted: string[];
+  /** Keys already queued or seen with the same version */
+  duplicates: string[];
+  /** Records for other buckets, prefixes, formats or event types */
+  ignored: number;
+  /** SNS subscriptions confirmed by this payload */
+  confirmedSubscriptions: number;
+}
+
+interface S3EventRecord {
+  eventSource?: string;
+  eventName?: string;
+  s3?: {
+    bucket?: { name?: string };
+    object?: { key?: string; eTag?: string; sequencer?: string };
+  };
+}
+
+/**
+ * Converts source objects as S3 event notifications announce them. Events
+ * may arrive directly, through SNS or through SQS (optionally carrying SNS),
+ * and are processed in the background with the configured concurrency.
+ * Payloads are rejected while the queue is full, so the sender retries them.
+ * Every object goes through the regular conversion pipeline, so the tracker
+ * still skips versions that were already converted.
+ */
+export class EventIngestionService {
+  private readonly config: Config;
+  private readonly s3Service: S3Service;
+  private readonly conversionService: ConversionService;
+  private readonly supportedFormats: Set<string>;
+  // Keys waiting to be converted, in arrival order
+  private readonly pending: string[] = [];
+  private readonly queuedKeys: Set<string> = new Set();
+  // `key@version` of accepted events, oldest first
+  private readonly seenEvents: Set<string> = new Set();
+  // SNS signing certificates by URL
+  private readonly signingCertificates: Map<string, Promise<string>> =
+    new Map();
+  private readonly active: Set<Promise<void>> = new Set();
+
+  constructor(
+    config: Config,
+    s3Service: S3Service,
+    conversionService: ConversionService
+  ) {
+    this.config = config;
+    this.s3Service = s3Service;
+    this.conversionService = conversionService;
+    this.supportedFormats = new Set(
+      config.conversion.supportedFormats.map(normalizeFormat)
+    );
+  }
+
+  async ingest(payload: unknown): Promise<IngestionResult> {
+    const result: IngestionResult = {
+      accepted: [],
+      duplicates: [],
+      ignored: 0,
+      confirmedSubscriptions: 0,
+    };
+
+    const records: S3EventRecord[] = [];
+    await this.unwrap(payload, records, result);
+
+    // Events by key; nothing is remembered until the whole payload fits
+    const accepted: Map<string, string> = new Map();
+    for (const record of records) {
+      const key = this.getSourceKey(record);
+      if (!key) {
+        result.ignored++;
+        continue;
+      }
+
+      const { eTag, sequencer } = record.s3!.object!;
+      const eventId = `${key}@${eTag ?? sequencer ?? ""}`;
+      if (
+        this.seenEvents.has(eventId) ||
+        this.queuedKeys.has(key) ||
+        accepted.has(key)
+      ) {
+        result.duplicates.push(key);
+        continue;
+      }
+      accepted.set(key, eventId);
+    }
+
+    const { eventQueueLimit } = this.config.server;
+    if (this.pending.length + accepted.size > eventQueueLimit) {
+      throw new EventQueueFullError(eventQueueLimit);
+    }
+    accepted.forEach((eventId, key) => {
+      this.rememberEvent(eventId);
+      this.queuedKeys.add(key);
+      this.pending.push(key);
+      metrics.queuePending.inc();
+      result.accepted.push(key);
+    });
+
+    if (result.accepted.length > 0) {
+      logger.info(`Queued ${result.accepted.length} objects from S3 events`, {
+        operation: "events.ingest",
+        accepted: result.accepted.length,
+        duplicates: result.duplicates.length,
+        ignored: result.ignored,
+      });
+    }
+    this.drain();
+    return result;
+  }
+
+  getQueueStatus(): { pending: number; processing: number } {
+    return { pending: this.pending.length, processing: this.active.size };
+  }
+
+  /**
+   * Waits for the conversions in progress and drops the queued objects,
+   * logging their keys so they can be converted by a regular run
+   */
+  async stop(): Promise<void> {
+    const dropped = this.pending.splice(0);
+    this.queuedKeys.clear();
+    metrics.queuePending.dec(dropped.length);
+    if (dropped.length > 0) {
+      logger.warn(`Dropped ${dropped.length} queued objects from S3 events`, {
+        operation: "events.dropped",
+        sourceKeys: dropped,
+      });
+    }
+    await Promise.all(this.active);
+  }
+
+  /**
+   * Collects the S3 records of a payload, unwrapping SNS and SQS envelopes
+   */
+  private async unwrap(
+    payload: unknown,
+    records: S3EventRecord[],
+    result: IngestionResult
+  ): Promise<void> {
+    if (!payload || typeof payload !== "object") {
+      throw new InvalidEventError("Event payload must be a JSON object");
+    }
+    const body = payload as Record<string, unknown>;
+
+    // SNS envelope
+    if (body.Type === "SubscriptionConfirmation") {
+      await this.verifySnsSignature(body);
+      await this.confirmSubscription(body.SubscribeURL, body.TopicArn);
+      result.confirmedSubscriptions++;
+      return;
+    }
+    if (body.Type === "Notification") {
+      await this.verifySnsSignature(body);
+      await this.unwrap(parseJson(body.Message), records, result);
+      return;
+    }
+
+    // The test event S3 sends when notifications are configured
+    if (body.Event === "s3:TestEvent") {
+      return;
+    }
+
+    if (!Array.isArray(body.Records)) {
+      throw new InvalidEventError("Unrecognized event payload");
+    }
+    for (const record of body.Records as Record<string, unknown>[]) {
+      if (record?.eventSource === "aws:sqs") {
+        await this.unwrap(parseJson(record.body), records, result);
+      } else {
+        records.push(record as S3EventRecord);
+      }
+    }
+  }
+
+  private async confirmSubscription(
+    subscribeUrl: unknown,
+    topicArn: unknown
+  ): Promise<void> {
+    let url: URL;
+    try {
+      url = new URL(String(subscribeUrl));
+    } catch (error) {
+      throw new InvalidEventError("SubscribeURL is not a valid URL");
+    }
+    // Only follow links to SNS itself, never to arbitrary hosts
+    if (url.protocol !== "https:" || !SNS_HOST_PATTERN.test(url.hostname)) {
+      throw new InvalidEventError("SubscribeURL does not point to Amazon SNS");
+    }
+
+    await axios.get(url.toString(), { timeout: 10000 });
+    logger.info(`Confirmed SNS subscription: ${String(topicArn)}`, {
+      operation: "events.confirmSubscription",
+      topicArn,
+    });
+  }
+
+  /**
+   * Rejects SNS messages that were not signed by SNS, as anyone who can
+   * reach the endpoint could otherwise have arbitrary keys converted
+   */
+  private async verifySnsSignature(
+    message: Record<string, unknown>
+  ): Promise<void> {
+    const algorithm =
+      SNS_SIGNATURE_ALGORITHMS[String(message.SignatureVersion)];
+    const fields = SNS_SIGNED_FIELDS[String(message.Type)];
+    if (!algorithm || !fields || typeof message.Signature !== "string") {
+      throw new InvalidEventError("SNS message is not signed");
+    }
+
+    // Every present field is signed as its name and value, one per line
+    const signed = fields
+      .filter((field) => typeof message[field] === "string")
+      .map((field) => `${field}\n${message[field]}\n`)
+      .join("");
+    const certificate = await this.getSigningCertificate(
+      message.SigningCertURL
+    );
+    const valid = crypto
+      .createVerify(algorithm)
+      .update(signed, "utf-8")
+      .verify(certificate, message.Signature, "base64");
+    if (!valid) {
+      throw new InvalidEventError("SNS message signature is invalid");
+    }
+  }
+
+  private getSigningCertificate(certUrl: unknown): Promise<string> {
+    let url: URL;
+    try {
+      url = new URL(String(certUrl));
+    } catch (error) {
+      throw new InvalidEventError("SigningCertURL is not a valid URL");
+    }
+    if (
+      url.protocol !== "https:" ||
+      !SNS_HOST_PATTERN.test(url.hostname) ||
+      !url.pathname.endsWith(".pem")
+    ) {
+      throw new InvalidEventError(
+        "SigningCertURL does not point to Amazon SNS"
+      );
+    }
+
+    const cacheKey = url.toString();
+    let certificate = this.signingCertificates.get(cacheKey);
+    if (!certificate) {
+      certificate = axios
+        .get<string>(cacheKey, { timeout: 10000, responseType: "text" })
+        .then((response) => response.data);
+      this.signingCertificates.set(cacheKey, certificate);
+      // A failed download is tried again with the next message
+      certificate.catch(() => this.signingCertificates.delete(cacheKey));
+    }
+    return certificate;
+  }
+
+  /**
+   * Returns the decoded key of an ObjectCreated record for a source image,
+   * or undefined when the record is not ours to convert
+   */
+  private getSourceKey(record: S3EventRecord): string | undefined {
+    const { sourceBucket, sourcePrefix, destinationBucket, destinationPrefix } =
+      this.config.aws;
+    if (
+      record?.eventSource !== "aws:s3" ||
+      !record.eventName?.startsWith("ObjectCreated:") ||
+      record.s3?.bucket?.name !== sourceBucket ||
+      typeof record.s3.object?.key !== "string"
+    ) {
+      return undefined;
+    }
+
+    // Keys in S3 events are URL-encoded with spaces as "+"
+    let key: string;
+    try {
+      key = decodeURIComponent(record.s3.object.key.replace(/\+/g, " "));
+    } catch (error) {
+      return undefined;
+    }
+
+    const format = formatFromKey(key);
+    if (
+      !key.startsWith(sourcePrefix) ||
+      !format ||
+      !this.supportedFormats.has(format)
+    ) {
+      return undefined;
+    }
+
+    // Converted outputs written next to their sources must not loop back
+    const isOwnOutput =
+      sourceBucket === destinationBucket &&
+      key.startsWith(destinationPrefix) &&
+      this.config.conversion.outputFormats.some(
+        (outputFormat) => normalizeFormat(outputFormat) === format
+      );
+    return isOwnOutput ? undefined : key;
+  }
+
+  private rememberEvent(eventId: string): void {
+    this.seenEvents.add(eventId);
+    if (this.seenEvents.size > MAX_SEEN_EVENTS) {
+      const oldest = this.seenEvents.values().next().value;
+      if (oldest !== undefined) {
+        this.seenEvents.delete(oldest);
+      }
+    }
+  }
+
+  private drain(): void {
+    while (
+      this.pending.length > 0 &&
+      this.active.size < this.config.processing.concurrency
+    ) {
+      const key = this.pending.shift()!;
+      this.queuedKeys.delete(key);
+      metrics.queuePending.dec();
+      metrics.queueProcessing.inc();
+
+      const processing: Promise<void> = this.process(key).finally(() => {
+        this.active.delete(processing);
+        metrics.queueProcessing.dec();
+        this.drain();
+      });
+      this.active.add(processing);
+    }
+  }
+
+  private async process(key: string): Promise<void> {
+    try {
+      // The event may be stale, so convert whatever the object is now
+      const info = await this.s3Service.getObjectInfo(
+        this.config.aws.sourceBucket,
+        key
+      );
+      if (!info) {
+        logger.info(`Object from S3 event no longer exists: ${key}`, {
+          operation: "events.missing",
+          sourceKey: key,
+        });
+        return;
+      }
+
+      const image: S3Object = {
+        key,
+        size: info.size,
+        lastModified: info.lastModified,
+        etag: info.etag,
+      };
+      const result = await this.conversionService.processSingleImage(image);
+      logger.info(`Converted object from S3 event: ${key}`, {
+        operation: "events.convert",
+        sourceKey: key,
+        status: result.status,
+        skipReason: result.skipReason,
+        error: result.error,
+      });
+    } catch (error) {
+      logger.error(`Failed to convert object from S3 event: ${key}`, {
+        operation: "events.error",
+        sourceKey: key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+function parseJson(value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    throw new InvalidEventError("Envelope does not contain valid JSON");
+  }
+}
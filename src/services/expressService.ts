@@ -1,74 +1,70 @@
-import express, { Request, Response, Application } from "express";
+import express, { Request, Response, Application, NextFunction } from "express";
 import { Config } from "../config";
-import { S3Service } from "./s3Service";
+import { HealthService } from "./healthService";
 import { ConversionService } from "./convertionService";
+import { JobService } from "./jobService";
+import { ImageDeliveryService } from "./imageDeliveryService";
+import { UploadConversionService } from "./uploadConversionService";
+import { EventIngestionService } from "./eventIngestionService";
+import { AuthContext, AuthService, createAuthService } from "./authService";
+import {
+  CorruptedImageError,
+  EventQueueFullError,
+  ImageNotFoundError,
+  ImageTooLargeError,
+  InvalidEventError,
+  InvalidImageRequestError,
+  InvalidJobRequestError,
+  JobConflictError,
+  UnsupportedFormatError,
+} from "../utils/error";
+import logger from "../utils/logger";
+import { extractMultipartFile, isMultipart } from "../utils/multipart";
+import { ConversionResult, JobEvent } from "../models";
+import metrics, { S3RequestOutcome } from "../utils/metrics";
+
+// Comment lines keep idle event streams open through proxies
+const SSE_HEARTBEAT_MS = 15000;
+// Room for multipart boundaries and headers on top of the image itself
+const MULTIPART_OVERHEAD_BYTES = 1024 * 1024;
 export interface ExpressService {
   startServer(): Promise<void>;
   stopServer(): Promise<void>;
-  //   getHealthStatus(): Promise<HealthStatus>;
-  //   getConversionMetrics(): ConversionMetrics;
-  //   getSystemMetrics(): Promise<SystemMetrics>;
-  recordConversion(
-    success: boolean,
-    processingTime: number,
-    sizeBefore: number,
-    sizeAfter: number
-  ): void;
-  recordS3Request(success: boolean): void;
+  getMetrics(): string;
+  recordConversion(result: ConversionResult): void;
+  recordS3Request(operation: string, outcome: S3RequestOutcome): void;
 }
 
-export interface HealthStatus {
-  status: "healthy" | "unhealthy" | "degraded";
-  timestamp: string;
-  uptime: number;
-  version: string;
-  environment: string;
-  services: {
-    s3: {
-      status: "healthy" | "unhealthy";
-      details: {
-        connection: boolean;
-        sourceBucketAccess: boolean;
-        targetBucketAccess: boolean;
-      };
-    };
-    memory: {
-      status: "healthy" | "unhealthy" | "degraded";
-      details: {
-        used: number;
-        total: number;
-        percentage: number;
-        heapUsed: number;
-        heapTotal: number;
-      };
-    };
-    disk: {
-      status: "healthy" | "unhealthy" | "degraded";
-      details: {
-        available: number;
-        total: number;
-        percentage: number;
-      };
-    };
-  };
-}
 export class ExpressService implements ExpressService {
   private readonly app: Application;
   private readonly config: Config;
-  private readonly s3Service: S3Service;
+  private readonly healthService: HealthService;
   private readonly conversionService: ConversionService | undefined;
+  private readonly jobService: JobService | undefined;
+  private readonly imageDeliveryService: ImageDeliveryService | undefined;
+  private readonly uploadConversionService: UploadConversionService | undefined;
+  private readonly eventIngestionService: EventIngestionService | undefined;
+  private readonly auth: AuthService;
   private server: any;
-  private startTime: number;
 
   constructor(
     config: Config,
-    s3Service: S3Service,
-    conversionService?: ConversionService
+    healthService: HealthService,
+    conversionService?: ConversionService,
+    jobService?: JobService,
+    imageDeliveryService?: ImageDeliveryService,
+    uploadConversionService?: UploadConversionService,
+    eventIngestionService?: EventIngestionService,
+    authService: AuthService = createAuthService(config)
   ) {
     this.config = config;
-    this.s3Service = s3Service;
+    this.healthService = healthService;
     this.conversionService = conversionService;
-    this.startTime = Date.now();
+    this.jobService = jobService;
+    this.imageDeliveryService = imageDeliveryService;
+    this.uploadConversionService = uploadConversionService;
+    this.eventIngestionService = eventIngestionService;
+    this.auth = authService;
     this.app = express();
 
     this.setupMiddleware();
@@ -80,32 +76,352 @@ export class ExpressService implements ExpressService {
   }
 
   setupRoutes() {
-    this.app.get("/health", async (_req: Request, res: Response) => {
+    // Liveness only covers the process, so orchestrators do not restart it
+    // when a dependency is down
+    this.app.get("/health/live", (_req: Request, res: Response) => {
+      res.json(this.healthService.getLiveness());
+    });
+
+    // Readiness exercises the dependencies; results are cached for the TTL
+    const ready = async (_req: Request, res: Response) => {
       try {
-        const health = await this.getHealthStatus();
-        const statusCode =
-          health.status === "healthy"
-            ? 200
-            : health.status === "degraded"
-              ? 200
-              : 503;
-
-        res.status(statusCode).json(health);
+        const report = await this.healthService.getReadiness();
+        res.status(report.status === "ready" ? 200 : 503).json(report);
       } catch (error) {
         res.status(503).json({
-          status: "unhealthy",
-          timestamp: new Date().toISOString(),
+          status: "not_ready",
+          checkedAt: new Date().toISOString(),
           error: "Health check failed",
         });
       }
+    };
+    this.app.get("/health/ready", ready);
+    this.app.get("/health", ready);
+
+    // Everything but the health checks requires credentials
+    const read = this.auth.requireScope("read");
+
+    this.app.get("/metrics", read, (_req: Request, res: Response) => {
+      res
+        .type("text/plain; version=0.0.4; charset=utf-8")
+        .send(this.getMetrics());
+    });
+
+    this.setupJobRoutes();
+    this.setupImageRoutes();
+    this.setupUploadRoutes();
+    this.setupEventRoutes();
+  }
+
+  private setupEventRoutes() {
+    // SNS posts its JSON as text/plain, so every body is read as text
+    const textBody = express.text({ type: () => true, limit: "1mb" });
+
+    this.app.post(
+      "/events/s3",
+      this.auth.requireScope("control"),
+      textBody,
+      async (req: Request, res: Response) => {
+        if (!this.eventIngestionService) {
+          res.status(503).json({ error: "Event ingestion is not available" });
+          return;
+        }
+        try {
+          const payload =
+            typeof req.body === "string" ? JSON.parse(req.body) : req.body;
+          const result = await this.eventIngestionService.ingest(payload);
+          res.status(202).json(result);
+        } catch (error) {
+          if (
+            error instanceof SyntaxError ||
+            error instanceof InvalidEventError
+          ) {
+            res.status(400).json({ error: error.message });
+          } else if (error instanceof EventQueueFullError) {
+            // SNS retries deliveries refused with a 5xx, so no event is lost
+            res
+              .status(503)
+              .set("Retry-After", "30")
+              .json({ error: error.message });
+          } else {
+            logger.error("S3 event ingestion failed", {
+              operation: "events.error",
+              error: error instanceof Error ? error.message : String(error),
+            });
+            res.status(500).json({ error: "Failed to ingest S3 event" });
+          }
+        }
+      }
+    );
+
+    this.app.get(
+      "/events/s3",
+      this.auth.requireScope("read"),
+      (_req: Request, res: Response) => {
+        if (!this.eventIngestionService) {
+          res.status(503).json({ error: "Event ingestion is not available" });
+          return;
+        }
+        res.json(this.eventIngestionService.getQueueStatus());
+      }
+    );
+  }
+
+  private setupUploadRoutes() {
+    const rawBody = express.raw({
+      type: () => true,
+      limit: this.config.conversion.maxFileSize + MULTIPART_OVERHEAD_BYTES,
+    });
+
+    this.app.post(
+      "/convert",
+      this.auth.requireScope("control"),
+      rawBody,
+      async (req: Request, res: Response) => {
+        if (!this.uploadConversionService) {
+          res.status(503).json({ error: "Upload conversion is not available" });
+          return;
+        }
+
+        try {
+          const contentType = req.get("Content-Type");
+          const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+          let image = body;
+          if (isMultipart(contentType)) {
+            const file = await extractMultipartFile(body, contentType!);
+            if (!file) {
+              res.status(400).json({ error: "Multipart body has no file" });
+              return;
+            }
+            image = file.buffer;
+          }
+
+          const store = req.query.store;
+          if (store !== undefined) {
+            if (typeof store !== "string") {
+              res.status(400).json({ error: "store must be a single key" });
+              return;
+            }
+            const result = await this.uploadConversionService.convertAndStore(
+              image,
+              store
+            );
+            // Another runner converting the key may have read the old version
+            const statusCode =
+              result.status === "failed"
+                ? 500
+                : result.skipReason === "claimed_elsewhere"
+                  ? 409
+                  : 201;
+            res.status(statusCode).json(result);
+            return;
+          }
+
+          const converted = await this.uploadConversionService.convert(image);
+          res
+            .set({
+              "Content-Type": converted.contentType,
+              "X-Original-Format": converted.originalFormat,
+              "X-Image-Width": converted.width.toString(),
+              "X-Image-Height": converted.height.toString(),
+            })
+            .send(converted.buffer);
+        } catch (error) {
+          if (error instanceof InvalidImageRequestError) {
+            res.status(400).json({ error: error.message });
+          } else if (error instanceof ImageTooLargeError) {
+            res.status(413).json({ error: error.message });
+          } else if (error instanceof UnsupportedFormatError) {
+            res.status(415).json({ error: error.message });
+          } else if (error instanceof CorruptedImageError) {
+            res.status(422).json({ error: error.message });
+          } else {
+            logger.error("Upload conversion failed", {
+              operation: "upload.error",
+              error: error instanceof Error ? error.message : String(error),
+            });
+            res.status(500).json({ error: "Failed to convert image" });
+          }
+        }
+      },
+      // Errors raised while reading the body
+      (error: unknown, _req: Request, res: Response, next: NextFunction) => {
+        const bodyError =
+          typeof error === "object" && error !== null ? error : {};
+        if ("type" in bodyError && bodyError.type === "entity.too.large") {
+          res.status(413).json({ error: "Request body is too large" });
+        } else if ("status" in bodyError && bodyError.status === 400) {
+          res.status(400).json({ error: "Invalid request body" });
+        } else {
+          next(error);
+        }
+      }
+    );
+  }
+
+  private setupImageRoutes() {
+    this.app.get(
+      "/images/*key",
+      this.auth.requireScope("read"),
+      async (req: Request, res: Response) => {
+        if (!this.imageDeliveryService) {
+          res.status(503).json({ error: "Image delivery is not available" });
+          return;
+        }
+        // Express splits wildcard parameters into path segments
+        const segments = req.params.key as string | string[];
+        const key = Array.isArray(segments) ? segments.join("/") : segments;
+
+        try {
+          const image = await this.imageDeliveryService.getImage({
+            key,
+            accept: req.get("Accept"),
+            width: req.query.w,
+            quality: req.query.q,
+          });
+
+          // Shared caches must not hand images behind credentials to others
+          const auth = res.locals.auth as AuthContext | undefined;
+          const visibility =
+            auth?.principal === "anonymous" ? "public" : "private";
+          res.set({
+            "Content-Type": image.contentType,
+            "Cache-Control": `${visibility}, max-age=${this.config.server.imageMaxAgeSeconds}`,
+            Vary: "Accept",
+            "X-Image-Source": image.source,
+          });
+          if (image.contentLength !== undefined) {
+            res.set("Content-Length", image.contentLength.toString());
+          }
+
+          if (Buffer.isBuffer(image.body)) {
+            res.send(image.body);
+            return;
+          }
+          const body = image.body;
+          body.on("error", (error) => {
+            logger.warn(`Image stream failed: ${key}`, {
+              operation: "delivery.streamError",
+              key,
+              error: error.message,
+            });
+            res.destroy(error);
+          });
+          req.on("close", () => body.destroy());
+          body.pipe(res);
+        } catch (error) {
+          if (error instanceof InvalidImageRequestError) {
+            res.status(400).json({ error: error.message });
+          } else if (error instanceof ImageNotFoundError) {
+            res.status(404).json({ error: "Image not found" });
+          } else if (error instanceof UnsupportedFormatError) {
+            res.status(415).json({ error: error.message });
+          } else if (error instanceof ImageTooLargeError) {
+            res.status(413).json({ error: error.message });
+          } else {
+            logger.error(`Image delivery failed: ${key}`, {
+              operation: "delivery.error",
+              key,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            res.status(500).json({ error: "Failed to deliver image" });
+          }
+        }
+      }
+    );
+  }
+
+  private setupJobRoutes() {
+    const read = this.auth.requireScope("read");
+
+    this.app.post(
+      "/jobs",
+      this.auth.requireScope("control"),
+      (req: Request, res: Response) => {
+        if (!this.jobService) {
+          res.status(503).json({ error: "Conversion jobs are not available" });
+          return;
+        }
+        try {
+          const job = this.jobService.startJob(req.body);
+          res.status(202).location(`/jobs/${job.id}`).json(job);
+        } catch (error) {
+          if (error instanceof InvalidJobRequestError) {
+            res.status(400).json({ error: error.message });
+          } else if (error instanceof JobConflictError) {
+            res
+              .status(409)
+              .json({ error: error.message, jobId: error.conflictingJobId });
+          } else {
+            res.status(500).json({ error: "Failed to start conversion job" });
+          }
+        }
+      }
+    );
+
+    this.app.get("/jobs", read, (_req: Request, res: Response) => {
+      res.json({ jobs: this.jobService?.listJobs() ?? [] });
+    });
+
+    this.app.get("/jobs/:id", read, (req: Request, res: Response) => {
+      const job = this.jobService?.getJob(String(req.params.id));
+      if (!job) {
+        res.status(404).json({ error: "Job not found" });
+        return;
+      }
+      res.json(job);
+    });
+
+    this.app.get("/jobs/:id/events", read, (req: Request, res: Response) => {
+      const job = this.jobService?.getJob(String(req.params.id));
+      if (!this.jobService || !job) {
+        res.status(404).json({ error: "Job not found" });
+        return;
+      }
+
+      res.status(200).set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.flushHeaders();
+      const send = (event: JobEvent) => {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      // A finished job only replays its final state
+      if (job.status !== "running") {
+        send({ type: "job.finished", job });
+        res.end();
+        return;
+      }
+
+      let closed = false;
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        res.end();
+      };
+      const heartbeat = setInterval(() => {
+        res.write(": keep-alive\n\n");
+      }, SSE_HEARTBEAT_MS);
+      const unsubscribe = this.jobService.subscribe(job.id, (event) => {
+        send(event);
+        if (event.type === "job.finished") {
+          close();
+        }
+      });
+      req.on("close", close);
     });
   }
   async startServer(): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.server = this.app.listen(this.config.server.port, () => {
-        console.log(
-          `Express server started on port ${this.config.server.port}`
-        );
+      const { host, port } = this.config.server;
+      this.server = this.app.listen(port, host, () => {
+        this.auth.setListenAddress(this.server.address().address);
+        console.log(`Express server started on ${host}:${port}`);
         resolve();
       });
       this.server.on("error", (error: Error) => {
@@ -131,120 +447,22 @@ export class ExpressService implements ExpressService {
     });
   }
 
-  async getHealthStatus(): Promise<HealthStatus> {
-    const s3Health = await this.s3Service.healthCheck();
-    const memoryStats = this.getMemoryStats();
-    const diskStats = await this.getDiskStats();
-
-    // Determine overall status
-    let overallStatus: "healthy" | "unhealthy" | "degraded" = "healthy";
-
-    if (
-      s3Health.status === "unhealthy" ||
-      memoryStats.status === "unhealthy" ||
-      diskStats.status === "unhealthy"
-    ) {
-      overallStatus = "unhealthy";
-    } else if (
-      memoryStats.status === "degraded" ||
-      diskStats.status === "degraded"
-    ) {
-      overallStatus = "degraded";
-    }
-
-    return {
-      status: overallStatus,
-      timestamp: new Date().toISOString(),
-      uptime: Date.now() - this.startTime,
-      version: "1.0.0",
-      environment: process.env.NODE_ENV || "development",
-      services: {
-        s3: s3Health,
-        memory: memoryStats,
-        disk: diskStats,
-      },
-    };
+  /**
+   * Prometheus text format. Conversions and S3 requests are recorded by the
+   * services themselves, so batch runs and HTTP jobs are both included.
+   */
+  getMetrics(): string {
+    return metrics.render();
   }
 
-  private getMemoryStats(): {
-    status: "healthy" | "unhealthy" | "degraded";
-    details: {
-      used: number;
-      total: number;
-      percentage: number;
-      heapUsed: number;
-      heapTotal: number;
-    };
-  } {
-    const memUsage = process.memoryUsage();
-    const totalMemory = require("os").totalmem();
-    const freeMemory = require("os").freemem();
-    const usedMemory = totalMemory - freeMemory;
-    const percentage = (usedMemory / totalMemory) * 100;
-
-    let status: "healthy" | "unhealthy" | "degraded" = "healthy";
-    if (percentage > 90) {
-      status = "unhealthy";
-    } else if (percentage > 80) {
-      status = "degraded";
-    }
-
-    return {
-      status,
-      details: {
-        used: usedMemory,
-        total: totalMemory,
-        percentage,
-        heapUsed: memUsage.heapUsed,
-        heapTotal: memUsage.heapTotal,
-      },
-    };
+  recordConversion(result: ConversionResult): void {
+    metrics.recordConversion(result);
   }
 
-  private async getDiskStats(): Promise<{
-    status: "healthy" | "unhealthy" | "degraded";
-    details: {
-      available: number;
-      total: number;
-      percentage: number;
-    };
-  }> {
-    try {
-      const fs = require("fs").promises;
-      const stats = await fs.statfs("./");
-
-      const total = stats.blocks * stats.bsize;
-      const available = stats.bavail * stats.bsize;
-      const used = total - available;
-      const percentage = (used / total) * 100;
-
-      let status: "healthy" | "unhealthy" | "degraded" = "healthy";
-      if (percentage > 95) {
-        status = "unhealthy";
-      } else if (percentage > 85) {
-        status = "degraded";
-      }
-
-      return {
-        status,
-        details: {
-          available,
-          total,
-          percentage,
-        },
-      };
-    } catch (error) {
-      // Fallback if statfs is not available
-      return {
-        status: "healthy",
-        details: {
-          available: 0,
-          total: 0,
-          percentage: 0,
-        },
-      };
-    }
+  recordS3Request(operation: string, outcome: S3RequestOutcome): void {
+    metrics.recordS3Request(operation, outcome);
   }
+
   doSomeThingi(): void {
     // Implementation here
     this.conversionService;
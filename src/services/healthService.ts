@@ -0,0 +1,304 @@
+import os from "os";
+import { Config } from "../config";
+import { ConversionTracker } from "./conversionTracker";
+import { ImageProcessor } from "./imageProcess";
+import { S3Service } from "./s3Service";
+
+/** Longest a single dependency check may take before it counts as failed */
+const CHECK_TIMEOUT_MS = 10000;
+/** How long passed write probes are reused, as each one writes objects */
+const WRITE_PROBE_INTERVAL_MS = 15 * 60 * 1000;
+
+export type CheckStatus = "pass" | "warn" | "fail" | "skip";
+
+export interface HealthCheckResult {
+  name: string;
+  status: CheckStatus;
+  durationMs: number;
+  message?: string | undefined;
+}
+
+export interface ReadinessReport {
+  /** Ready unless a check failed; warnings do not affect readiness */
+  status: "ready" | "not_ready";
+  checkedAt: string;
+  /** Whether the report was reused from an earlier run within the TTL */
+  cached: boolean;
+  checks: HealthCheckResult[];
+}
+
+export interface LivenessReport {
+  status: "alive";
+  timestamp: string;
+  uptime: number;
+  version: string;
+  environment: string;
+  /** Memory of this process, not of the host */
+  memory: {
+    rss: number;
+    heapUsed: number;
+    heapTotal: number;
+    external: number;
+  };
+}
+
+export interface HealthServiceOptions {
+  /**
+   * Write probe objects to check put permissions; off for dry runs, which
+   * must not write anything
+   */
+  probeWrites?: boolean;
+}
+
+/**
+ * Liveness and readiness checks. Readiness exercises the permissions a
+ * conversion needs instead of only checking that buckets exist: listing and
+ * reading sources, writing to the destination and the tracker, and encoding
+ * an image with the processor.
+ */
+export class HealthService {
+  private readonly config: Config;
+  private readonly s3Service: S3Service;
+  private readonly imageProcessor: ImageProcessor;
+  private readonly conversionTracker: ConversionTracker;
+  private readonly probeWrites: boolean;
+  private readonly startTime = Date.now();
+  private lastReport: ReadinessReport | null = null;
+  private lastCheckedAt = 0;
+  private running: Promise<ReadinessReport> | null = null;
+  private writeProbes: {
+    checkedAt: number;
+    results: HealthCheckResult[];
+  } | null = null;
+
+  constructor(
+    config: Config,
+    s3Service: S3Service,
+    imageProcessor: ImageProcessor,
+    conversionTracker: ConversionTracker,
+    options: HealthServiceOptions = {}
+  ) {
+    this.config = config;
+    this.s3Service = s3Service;
+    this.imageProcessor = imageProcessor;
+    this.conversionTracker = conversionTracker;
+    this.probeWrites = options.probeWrites ?? true;
+  }
+
+  /**
+   * Only reports on the process itself, so a failing dependency never gets
+   * the process restarted
+   */
+  getLiveness(): LivenessReport {
+    const memory = process.memoryUsage();
+    return {
+      status: "alive",
+      timestamp: new Date().toISOString(),
+      uptime: Date.now() - this.startTime,
+      version: "1.0.0",
+      environment: process.env.NODE_ENV || "development",
+      memory: {
+        rss: memory.rss,
+        heapUsed: memory.heapUsed,
+        heapTotal: memory.heapTotal,
+        external: memory.external,
+      },
+    };
+  }
+
+  /**
+   * Returns the last report while it is younger than the configured TTL;
+   * concurrent callers share one run
+   */
+  async getReadiness(): Promise<ReadinessReport> {
+    const ttlMs = this.config.server.healthCheckTtlMs;
+    if (this.lastReport && Date.now() - this.lastCheckedAt < ttlMs) {
+      return { ...this.lastReport, cached: true };
+    }
+    return this.runChecks();
+  }
+
+  /**
+   * Runs the checks now, bypassing the report cache; passed write probes are
+   * still reused within their interval
+   */
+  runChecks(): Promise<ReadinessReport> {
+    if (!this.running) {
+      this.running = this.executeChecks().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async executeChecks(): Promise<ReadinessReport> {
+    const { sourceBucket, sourcePrefix, destinationBucket } = this.config.aws;
+
+    // Reading a source needs one to be listed first
+    const sourceChecks = (async () => {
+      let firstSource: string | undefined;
+      const list = await this.runCheck(`s3.list:${sourceBucket}`, async () => {
+        const object = await this.s3Service.listFirstObject(
+          sourceBucket,
+          sourcePrefix
+        );
+        firstSource = object?.key;
+        // Often a mistyped prefix, which a pass would hide
+        return object
+          ? undefined
+          : { status: "warn", message: "No objects below the source prefix" };
+      });
+      const get = await this.runCheck(`s3.get:${sourceBucket}`, async () => {
+        if (!firstSource) {
+          return {
+            status: "skip",
+            message:
+              list.status === "fail"
+                ? "Listing failed"
+                : "No source object to read",
+          };
+        }
+        await this.s3Service.getObjectInfo(sourceBucket, firstSource);
+        return undefined;
+      });
+      return [list, get];
+    })();
+
+    const checks = await Promise.all([
+      sourceChecks,
+      this.runWriteChecks(destinationBucket),
+      this.runCheck("processor", async () => {
+        await this.imageProcessor.validateProcessor();
+        return undefined;
+      }),
+      this.runCheck("memory", async () => this.checkMemory()),
+    ]);
+
+    const results = checks.flat();
+    const report: ReadinessReport = {
+      status: results.some((check) => check.status === "fail")
+        ? "not_ready"
+        : "ready",
+      checkedAt: new Date().toISOString(),
+      cached: false,
+      checks: results,
+    };
+    this.lastReport = report;
+    this.lastCheckedAt = Date.now();
+    return report;
+  }
+
+  /**
+   * Probes the destination and the tracker at startup and then at most every
+   * WRITE_PROBE_INTERVAL_MS; failures are probed again on the next run
+   */
+  private async runWriteChecks(
+    destinationBucket: string
+  ): Promise<HealthCheckResult[]> {
+    if (
+      this.writeProbes &&
+      Date.now() - this.writeProbes.checkedAt < WRITE_PROBE_INTERVAL_MS
+    ) {
+      return this.writeProbes.results;
+    }
+
+    const results = await Promise.all([
+      this.runCheck(`s3.put:${destinationBucket}`, () =>
+        this.probeWrites
+          ? this.checkDestinationWritable()
+          : Promise.resolve({ status: "skip" as const, message: "Dry run" })
+      ),
+      this.runCheck(`tracker:${this.config.tracking.backend}`, async () => {
+        if (!this.probeWrites) {
+          return { status: "skip", message: "Dry run" };
+        }
+        await this.conversionTracker.checkWritable();
+        return undefined;
+      }),
+    ]);
+    this.writeProbes = results.some((check) => check.status === "fail")
+      ? null
+      : { checkedAt: Date.now(), results };
+    return results;
+  }
+
+  /**
+   * Conversions only put objects, so a probe that cannot be deleted again
+   * only warns
+   */
+  private async checkDestinationWritable(): Promise<
+    { status: CheckStatus; message: string } | undefined
+  > {
+    const { destinationBucket, destinationPrefix } = this.config.aws;
+    // Named per host and process so runners never delete each other's probe
+    const probeKey = `${destinationPrefix}.webp-converter-health/${os.hostname()}-${
+      process.pid
+    }`;
+    await this.s3Service.putObject(
+      destinationBucket,
+      probeKey,
+      Buffer.from(new Date().toISOString(), "utf-8"),
+      {},
+      "text/plain"
+    );
+    try {
+      await this.s3Service.deleteObjects(destinationBucket, [probeKey]);
+    } catch (error) {
+      return {
+        status: "warn",
+        message: `Probe ${probeKey} could not be deleted: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      };
+    }
+    return undefined;
+  }
+
+  // Above the RSS limit conversions throttle themselves, so it only warns
+  private checkMemory(): { status: CheckStatus; message: string } {
+    const { rss } = process.memoryUsage();
+    const { maxRssBytes } = this.config.processing.memory;
+    const usage = `${Math.round(rss / 1024 / 1024)} MB of ${Math.round(
+      maxRssBytes / 1024 / 1024
+    )} MB RSS limit`;
+    return { status: rss > maxRssBytes ? "warn" : "pass", message: usage };
+  }
+
+  /**
+   * Times a check; it passes unless it throws or returns another status
+   */
+  private async runCheck(
+    name: string,
+    check: () => Promise<{ status: CheckStatus; message?: string } | undefined>
+  ): Promise<HealthCheckResult> {
+    const startTime = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const outcome = await Promise.race([
+        check(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS}ms`)),
+            CHECK_TIMEOUT_MS
+          );
+        }),
+      ]);
+      const result = outcome ?? { status: "pass" as const };
+      return {
+        name,
+        status: result.status,
+        durationMs: Date.now() - startTime,
+        message: result.message,
+      };
+    } catch (error) {
+      return {
+        name,
+        status: "fail",
+        durationMs: Date.now() - startTime,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,359 @@
+import { Readable } from "stream";
+import { Config } from "../config";
+import { ConvertedImage, EncodeOptions, OutputFormat } from "../models";
+import {
+  ImageNotFoundError,
+  ImageTooLargeError,
+  InvalidImageRequestError,
+  UnsupportedFormatError,
+} from "../utils/error";
+import { formatFromKey } from "../utils/imageFormat";
+import logger from "../utils/logger";
+import { ImageProcessor } from "./imageProcess";
+import { S3ObjectInfo, S3Service } from "./s3Service";
+
+/** Formats offered to clients, most preferred first */
+const NEGOTIABLE_FORMATS: OutputFormat[] = ["avif", "webp"];
+/** Largest width WebP can encode */
+const MAX_WIDTH = 16383;
+
+export interface ImageRequest {
+  /** Key relative to the source prefix */
+  key: string;
+  accept?: string | undefined;
+  /** Raw `w` and `q` query parameters */
+  width?: unknown;
+  quality?: unknown;
+}
+
+export interface DeliveredImage {
+  body: Readable | Buffer;
+  contentType: string;
+  contentLength?: number | undefined;
+  /** "original" when the client accepts none of the converted formats */
+  format: OutputFormat | "original";
+  /** Whether the image came from storage or was converted for this request */
+  source: "stored" | "converted";
+}
+
+interface ParsedImageRequest {
+  sourceKey: string;
+  format: OutputFormat | undefined;
+  width: number | undefined;
+  quality: number | undefined;
+}
+
+/**
+ * Serves source images in the best format the client accepts. Variants at
+ * the configured widths and default quality are written back to the
+ * destination bucket, so they are only converted once per source version;
+ * other widths and explicit qualities are converted for each request, so
+ * clients cannot fill the bucket with arbitrary variants.
+ */
+export class ImageDeliveryService {
+  private readonly config: Config;
+  private readonly s3Service: S3Service;
+  private readonly imageProcessor: ImageProcessor;
+  // Conversions in progress by target key, shared by concurrent requests
+  private readonly inFlight: Map<string, Promise<ConvertedImage>> = new Map();
+
+  constructor(
+    config: Config,
+    s3Service: S3Service,
+    imageProcessor: ImageProcessor
+  ) {
+    this.config = config;
+    this.s3Service = s3Service;
+    this.imageProcessor = imageProcessor;
+  }
+
+  async getImage(request: ImageRequest): Promise<DeliveredImage> {
+    const { sourceKey, format, width, quality } = this.parseRequest(request);
+    const { sourceBucket, destinationBucket } = this.config.aws;
+
+    if (!format) {
+      // Resizing is only offered together with a converted format
+      const original = await this.getSourceInfo(sourceKey);
+      return {
+        body: await this.s3Service.downloadImageStream(sourceBucket, sourceKey),
+        contentType: original.contentType ?? "application/octet-stream",
+        contentLength: original.size,
+        format: "original",
+        source: "stored",
+      };
+    }
+
+    const contentType = this.imageProcessor.getOutputContentType(format);
+    const targetKey = this.getTargetKey(sourceKey, format, width, quality);
+    const original = await this.getSourceInfo(sourceKey);
+    const storable = this.isPresetVariant(width, quality);
+    const stored = storable
+      ? await this.s3Service.getObjectInfo(destinationBucket, targetKey)
+      : undefined;
+    // A variant of an older version of the source is converted again
+    if (stored && stored.metadata["source-etag"] === original.etag) {
+      return {
+        body: await this.s3Service.downloadImageStream(
+          destinationBucket,
+          targetKey
+        ),
+        contentType,
+        contentLength: stored.size,
+        format,
+        source: "stored",
+      };
+    }
+
+    const conversionId = `${targetKey}@${original.etag}`;
+    let pending = this.inFlight.get(conversionId);
+    if (!pending) {
+      pending = this.convert(original, targetKey, format, storable, {
+        width,
+        quality,
+      });
+      this.inFlight.set(conversionId, pending);
+      pending
+        .finally(() => this.inFlight.delete(conversionId))
+        .catch(() => undefined);
+    }
+    const converted = await pending;
+    return {
+      body: converted.buffer,
+      contentType,
+      contentLength: converted.buffer.length,
+      format,
+      source: "converted",
+    };
+  }
+
+  /**
+   * Picks the accepted format with the highest q-value among the configured
+   * output formats, preferring AVIF on ties. Only explicit media types count,
+   * as browsers send wildcards without being able to decode every format.
+   */
+  negotiateFormat(accept: string | undefined): OutputFormat | undefined {
+    if (!accept) {
+      return undefined;
+    }
+
+    const weights = new Map<string, number>();
+    for (const part of accept.split(",")) {
+      const [mediaType, ...params] = part.split(";");
+      const qParam = params
+        .map((param) => param.trim().split("="))
+        .find(([name]) => name?.trim().toLowerCase() === "q");
+      const weight = qParam ? Number(qParam[1]) : 1;
+      weights.set(
+        mediaType!.trim().toLowerCase(),
+        Number.isNaN(weight) ? 0 : weight
+      );
+    }
+
+    let best: OutputFormat | undefined;
+    let bestWeight = 0;
+    for (const format of NEGOTIABLE_FORMATS) {
+      const weight = weights.get(`image/${format}`) ?? 0;
+      if (
+        weight > bestWeight &&
+        this.config.conversion.outputFormats.includes(format) &&
+        this.imageProcessor.isOutputFormatAvailable(format)
+      ) {
+        best = format;
+        bestWeight = weight;
+      }
+    }
+    return best;
+  }
+
+  private async convert(
+    original: S3ObjectInfo,
+    targetKey: string,
+    format: OutputFormat,
+    store: boolean,
+    variant: { width: number | undefined; quality: number | undefined }
+  ): Promise<ConvertedImage> {
+    const { sourceBucket, destinationBucket } = this.config.aws;
+    const sourceKey = original.key;
+    const imageBuffer = await this.s3Service.downloadImage(
+      sourceBucket,
+      sourceKey
+    );
+
+    await this.imageProcessor.validateFileIntegrity(imageBuffer);
+    const metadata = await this.imageProcessor.getImageMetadata(imageBuffer);
+    const { encodingMode } = this.config.conversion;
+    const resolvedMode =
+      encodingMode === "auto"
+        ? await this.imageProcessor.selectEncodingMode(imageBuffer)
+        : encodingMode;
+
+    const converted = await this.imageProcessor.convertToFormat(
+      imageBuffer,
+      format,
+      this.getEncodeOptions(variant.width, variant.quality, resolvedMode, store)
+    );
+    if (!store) {
+      return converted;
+    }
+
+    const uploadMetadata = {
+      "original-format": metadata.originalFormat,
+      "output-format": format,
+      "output-size": (variant.width ?? "original").toString(),
+      "original-size": original.size.toString(),
+      "source-etag": original.etag,
+      "source-last-modified": original.lastModified.toISOString(),
+      "encoding-mode": resolvedMode,
+      "conversion-timestamp": new Date().toISOString(),
+      "output-width": converted.width.toString(),
+      "output-height": converted.height.toString(),
+      "converted-size": converted.buffer.length.toString(),
+      "conversion-quality": converted.quality.toString(),
+    };
+
+    // The response does not wait for the upload; a failed upload only means
+    // the next request converts again
+    this.s3Service
+      .uploadImage(
+        destinationBucket,
+        targetKey,
+        converted.buffer,
+        uploadMetadata,
+        this.imageProcessor.getOutputContentType(format)
+      )
+      .then(() => {
+        logger.info(`Stored on-the-fly conversion: ${targetKey}`, {
+          operation: "delivery.store",
+          sourceKey,
+          targetKey,
+        });
+      })
+      .catch((error) => {
+        logger.warn(`Failed to store on-the-fly conversion: ${targetKey}`, {
+          operation: "delivery.storeError",
+          sourceKey,
+          targetKey,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+
+    return converted;
+  }
+
+  private async getSourceInfo(sourceKey: string): Promise<S3ObjectInfo> {
+    const original = await this.s3Service.getObjectInfo(
+      this.config.aws.sourceBucket,
+      sourceKey
+    );
+    if (!original) {
+      throw new ImageNotFoundError(sourceKey);
+    }
+    const { maxFileSize } = this.config.conversion;
+    if (original.size > maxFileSize) {
+      throw new ImageTooLargeError(sourceKey, original.size, maxFileSize);
+    }
+    return original;
+  }
+
+  /**
+   * Only the widths batch conversions produce and the default quality are
+   * stored, which bounds the variants per source
+   */
+  private isPresetVariant(
+    width: number | undefined,
+    quality: number | undefined
+  ): boolean {
+    return (
+      quality === undefined &&
+      (width === undefined ||
+        this.config.conversion.resize.sizes.includes(width))
+    );
+  }
+
+  private getEncodeOptions(
+    width: number | undefined,
+    quality: number | undefined,
+    encodingMode: EncodeOptions["encodingMode"],
+    store: boolean
+  ): EncodeOptions {
+    const { resize, targetQuality } = this.config.conversion;
+    return {
+      quality: quality ?? this.config.conversion.quality,
+      resize: width
+        ? {
+            width,
+            fit: resize.fit,
+            withoutEnlargement: resize.withoutEnlargement,
+          }
+        : undefined,
+      encodingMode,
+      // The target quality search encodes several times, which only pays off
+      // for stored variants; the others use the default quality per request
+      targetQuality:
+        store && targetQuality.ssim > 0 ? targetQuality : undefined,
+    };
+  }
+
+  /**
+   * Same naming as batch conversions, e.g. photos/hero-640w.webp, so images
+   * converted by either are shared. An explicit quality adds a `-q{n}` suffix.
+   */
+  private getTargetKey(
+    sourceKey: string,
+    format: OutputFormat,
+    width: number | undefined,
+    quality: number | undefined
+  ): string {
+    const { sourcePrefix, destinationPrefix } = this.config.aws;
+    const destinationKey = `${destinationPrefix}${sourceKey.substring(
+      sourcePrefix.length
+    )}`;
+    const suffix =
+      (width ? `-${width}w` : "") +
+      (quality !== undefined ? `-q${quality}` : "");
+    const lastSlashIndex = destinationKey.lastIndexOf("/");
+    const lastDotIndex = destinationKey.lastIndexOf(".");
+    const baseName =
+      lastDotIndex > lastSlashIndex
+        ? destinationKey.substring(0, lastDotIndex)
+        : destinationKey;
+    return `${baseName}${suffix}.${format}`;
+  }
+
+  private parseRequest(request: ImageRequest): ParsedImageRequest {
+    const key = request.key.replace(/^\/+/, "");
+    if (!key || key.split("/").some((segment) => segment === "..")) {
+      throw new InvalidImageRequestError("Invalid image key");
+    }
+
+    const sourceFormat = formatFromKey(key);
+    if (!sourceFormat || !this.imageProcessor.isFormatSupported(sourceFormat)) {
+      throw new UnsupportedFormatError(sourceFormat ?? key);
+    }
+
+    return {
+      sourceKey: `${this.config.aws.sourcePrefix}${key}`,
+      format: this.negotiateFormat(request.accept),
+      width: this.parseIntegerParam("w", request.width, 1, MAX_WIDTH),
+      quality: this.parseIntegerParam("q", request.quality, 1, 100),
+    };
+  }
+
+  private parseIntegerParam(
+    name: string,
+    value: unknown,
+    min: number,
+    max: number
+  ): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const parsed = typeof value === "string" ? Number(value) : NaN;
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+      throw new InvalidImageRequestError(
+        `${name} must be an integer between ${min} and ${max}`
+      );
+    }
+    return parsed;
+  }
+}
@@ -1,14 +1,69 @@
 import sharp from "sharp";
-import { ImageMetadata, SUPPORTED_FORMATS, SupportedFormat } from "../models";
+import { Readable } from "stream";
+import {
+  ConvertedImage,
+  EncodeOptions,
+  EncodingMode,
+  ImageMetadata,
+  OutputFormat,
+  ResizeOptions,
+  TargetQualityOptions,
+} from "../models";
+import { computeSsim } from "../utils/ssim";
+import { normalizeFormat } from "../utils/imageFormat";
 import {
   ConversionError,
   CorruptedImageError,
   ImageProcessingError,
+  SourceStreamError,
   UnsupportedFormatError,
 } from "../utils/error";
 
+/** Thumbnail edge used to estimate the colour count of a source */
+const COLOUR_SAMPLE_SIZE = 128;
+/** Sources with at most this many distinct colours are encoded losslessly */
+const LOW_COLOUR_COUNT = 256;
+/** Longest edge of the greyscale sample used for SSIM comparisons */
+const SIMILARITY_SAMPLE_SIZE = 512;
+/** Edge of the generated image validateProcessor converts */
+const TEST_IMAGE_SIZE = 32;
+
+interface SimilaritySample {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface ConvertedStream {
+  stream: Readable;
+  info: Promise<{
+    width: number;
+    height: number;
+    size: number;
+    encodingMode: EncodingMode;
+    quality: number;
+  }>;
+}
+
+export interface StreamingConversion {
+  /** Set once reading the source failed; every pending result fails with it */
+  readonly sourceError: SourceStreamError | undefined;
+  getMetadata(): Promise<ImageMetadata>;
+  selectEncodingMode(): Promise<EncodingMode>;
+  convert(format: OutputFormat, options: EncodeOptions): ConvertedStream;
+}
+
 export interface ImageProcessor {
   convertToWebP(inputBuffer: Buffer, quality: number): Promise<Buffer>;
+  convertToFormat(
+    inputBuffer: Buffer,
+    format: OutputFormat,
+    options: EncodeOptions
+  ): Promise<ConvertedImage>;
+  selectEncodingMode(inputBuffer: Buffer): Promise<EncodingMode>;
+  createStreamingConversion(input: Readable): StreamingConversion;
+  isOutputFormatAvailable(format: OutputFormat): boolean;
+  getOutputContentType(format: OutputFormat): string;
   validateImageFormat(buffer: Buffer): Promise<boolean>;
   getImageMetadata(buffer: Buffer): Promise<ImageMetadata>;
   isFormatSupported(format: string): boolean;
@@ -17,18 +72,43 @@ export interface ImageProcessor {
 }
 
 export class SharpImageProcessor implements ImageProcessor {
+  private readonly supportedFormats: Set<string>;
+
+  constructor(supportedFormats: readonly string[]) {
+    this.supportedFormats = new Set(supportedFormats.map(normalizeFormat));
+  }
   async convertToWebP(inputBuffer: Buffer, quality: number): Promise<Buffer> {
+    const converted = await this.convertToFormat(inputBuffer, "webp", {
+      quality,
+    });
+    return converted.buffer;
+  }
+  async convertToFormat(
+    inputBuffer: Buffer,
+    format: OutputFormat,
+    options: EncodeOptions
+  ): Promise<ConvertedImage> {
     try {
+      if (!this.isOutputFormatAvailable(format)) {
+        throw new UnsupportedFormatError(format);
+      }
       await this.validateFileIntegrity(inputBuffer);
-      const validQuality = Math.max(1, Math.min(100, quality));
-      const webpBuffer = await sharp(inputBuffer)
-        .webp({
-          quality: validQuality,
-          effort: 6, // Higher effort for better compression
-          lossless: false,
-        })
-        .toBuffer();
-      return webpBuffer;
+
+      // Quality has no effect on lossless output, so there is nothing to search
+      if (
+        options.targetQuality &&
+        options.targetQuality.ssim > 0 &&
+        options.encodingMode !== "lossless"
+      ) {
+        return await this.encodeToTargetQuality(
+          inputBuffer,
+          format,
+          options,
+          options.targetQuality
+        );
+      }
+
+      return await this.encode(inputBuffer, format, options);
     } catch (error) {
       if (error instanceof ImageProcessingError) {
         throw error;
@@ -39,6 +119,116 @@ export class SharpImageProcessor implements ImageProcessor {
       );
     }
   }
+  /**
+   * Feeds a source stream into sharp once and encodes any number of outputs
+   * from it. sharp still holds the encoded source in memory, but outputs are
+   * streamed out so they never have to be buffered whole. Target quality
+   * search needs every candidate in memory and is not applied here.
+   */
+  createStreamingConversion(input: Readable): StreamingConversion {
+    const source = sharp();
+    // Clones wait for the source to finish and never hear that it failed, so
+    // pending results are failed here instead
+    const outputs = new Set<sharp.Sharp>();
+    let sourceError: SourceStreamError | undefined;
+    let rejectSourceFailed: (error: SourceStreamError) => void = () => {};
+    const sourceFailed = new Promise<never>((_, reject) => {
+      rejectSourceFailed = reject;
+    });
+    sourceFailed.catch(() => undefined);
+
+    const fail = (error: Error) => {
+      if (sourceError) {
+        return;
+      }
+      sourceError = new SourceStreamError(error);
+      rejectSourceFailed(sourceError);
+      for (const output of outputs) {
+        output.destroy(sourceError);
+      }
+    };
+    input.on("error", (error) => {
+      fail(error);
+      source.destroy(error);
+    });
+    source.on("error", fail);
+    input.pipe(source);
+
+    const whileSourceReadable = <T>(operation: Promise<T>): Promise<T> =>
+      Promise.race([operation, sourceFailed]);
+
+    return {
+      get sourceError() {
+        return sourceError;
+      },
+      getMetadata: async () => {
+        try {
+          const metadata = await whileSourceReadable(source.clone().metadata());
+          return this.toImageMetadata(metadata, metadata.size ?? 0);
+        } catch (error) {
+          if (
+            error instanceof ImageProcessingError ||
+            error instanceof SourceStreamError
+          ) {
+            throw error;
+          }
+          throw new CorruptedImageError(
+            "File integrity validation failed",
+            error as Error
+          );
+        }
+      },
+      selectEncodingMode: () =>
+        whileSourceReadable(this.analyzeEncodingMode(source.clone())),
+      convert: (format, options) => {
+        if (!this.isOutputFormatAvailable(format)) {
+          throw new UnsupportedFormatError(format);
+        }
+        const pipeline = this.applyOutputOptions(
+          source.clone(),
+          format,
+          options
+        );
+        outputs.add(pipeline);
+        pipeline.once("close", () => outputs.delete(pipeline));
+        if (sourceError) {
+          pipeline.destroy(sourceError);
+        }
+        const info: ConvertedStream["info"] = new Promise((resolve, reject) => {
+          pipeline.once("info", (outputInfo: sharp.OutputInfo) =>
+            resolve({
+              width: outputInfo.width,
+              height: outputInfo.height,
+              size: outputInfo.size,
+              encodingMode: options.encodingMode ?? "lossy",
+              quality: this.clampQuality(options.quality),
+            })
+          );
+          pipeline.once("error", (error: Error) =>
+            reject(
+              error instanceof SourceStreamError
+                ? error
+                : new ConversionError(error.message, error)
+            )
+          );
+        });
+        // The caller awaits the stream first, don't surface the same error twice
+        info.catch(() => undefined);
+        return { stream: pipeline, info };
+      },
+    };
+  }
+  async selectEncodingMode(inputBuffer: Buffer): Promise<EncodingMode> {
+    return this.analyzeEncodingMode(sharp(inputBuffer));
+  }
+  isOutputFormatAvailable(format: OutputFormat): boolean {
+    // AVIF is provided by libheif; JPEG XL needs libvips built with libjxl
+    const formatInfo = sharp.format[format === "avif" ? "heif" : format];
+    return Boolean(formatInfo?.output.buffer);
+  }
+  getOutputContentType(format: OutputFormat): string {
+    return this.getContentType(format);
+  }
   async validateImageFormat(buffer: Buffer): Promise<boolean> {
     try {
       const metadata = await sharp(buffer).metadata();
@@ -53,29 +243,7 @@ export class SharpImageProcessor implements ImageProcessor {
   async getImageMetadata(buffer: Buffer): Promise<ImageMetadata> {
     try {
       const metadata = await sharp(buffer).metadata();
-
-      if (!metadata.format || !metadata.width || !metadata.height) {
-        throw new CorruptedImageError(
-          "Invalid image: missing required metadata"
-        );
-      }
-
-      // Check if format is supported
-      if (!this.isFormatSupported(metadata.format)) {
-        throw new UnsupportedFormatError(metadata.format);
-      }
-
-      // Determine content type based on format
-      const contentType = this.getContentType(metadata.format);
-
-      return {
-        originalFormat: metadata.format,
-        width: metadata.width,
-        height: metadata.height,
-        fileSize: buffer.length,
-        lastModified: new Date(), // Will be overridden with S3 metadata
-        contentType,
-      };
+      return this.toImageMetadata(metadata, buffer.length);
     } catch (error) {
       if (error instanceof ImageProcessingError) {
         throw error;
@@ -89,8 +257,7 @@ export class SharpImageProcessor implements ImageProcessor {
     }
   }
   isFormatSupported(format: string): boolean {
-    const normalizedFormat = format.toLowerCase();
-    return SUPPORTED_FORMATS.includes(normalizedFormat as SupportedFormat);
+    return this.supportedFormats.has(normalizeFormat(format));
   }
   async validateFileIntegrity(buffer: Buffer): Promise<void> {
     try {
@@ -132,16 +299,23 @@ export class SharpImageProcessor implements ImageProcessor {
   }
   async validateProcessor(): Promise<void> {
     try {
-      // Create a test image using Sharp to ensure it's valid and large enough
+      // Create a test image in a configured input format that sharp can write.
+      // Noise keeps it above the minimum size validateFileIntegrity accepts,
+      // which a flat 10x10 PNG is not.
+      const testFormat =
+        (["png", "jpeg", "webp", "tiff", "gif"] as const).find((format) =>
+          this.isFormatSupported(format)
+        ) ?? "png";
       const testBuffer = await sharp({
         create: {
-          width: 10,
-          height: 10,
+          width: TEST_IMAGE_SIZE,
+          height: TEST_IMAGE_SIZE,
           channels: 3,
           background: { r: 255, g: 255, b: 255 },
+          noise: { type: "gaussian", mean: 128, sigma: 30 },
         },
       })
-        .png()
+        .toFormat(testFormat)
         .toBuffer();
 
       // Test basic functionality
@@ -151,7 +325,11 @@ export class SharpImageProcessor implements ImageProcessor {
       }
 
       const metadata = await this.getImageMetadata(testBuffer);
-      if (!metadata || metadata.width !== 10 || metadata.height !== 10) {
+      if (
+        !metadata ||
+        metadata.width !== TEST_IMAGE_SIZE ||
+        metadata.height !== TEST_IMAGE_SIZE
+      ) {
         throw new Error("Image metadata extraction failed");
       }
 
@@ -169,6 +347,262 @@ export class SharpImageProcessor implements ImageProcessor {
       );
     }
   }
+  private toImageMetadata(
+    metadata: sharp.Metadata,
+    fileSize: number
+  ): ImageMetadata {
+    if (!metadata.format || !metadata.width || !metadata.height) {
+      throw new CorruptedImageError("Invalid image: missing required metadata");
+    }
+
+    // Check if format is supported
+    if (!this.isFormatSupported(metadata.format)) {
+      throw new UnsupportedFormatError(metadata.format);
+    }
+
+    // Determine content type based on format
+    const contentType = this.getContentType(metadata.format);
+
+    return {
+      originalFormat: metadata.format,
+      width: metadata.width,
+      height: metadata.height,
+      fileSize,
+      lastModified: new Date(), // Will be overridden with S3 metadata
+      contentType,
+    };
+  }
+  /**
+   * Picks an encoding for a source: palette or few-colour PNGs (icons, line
+   * art, screenshots) are kept lossless, other PNGs with transparency get
+   * near-lossless, everything else is encoded lossy.
+   */
+  private async analyzeEncodingMode(image: sharp.Sharp): Promise<EncodingMode> {
+    try {
+      const metadata = await image.metadata();
+      if (metadata.format !== "png") {
+        return "lossy";
+      }
+      if (metadata.isPalette) {
+        return "lossless";
+      }
+
+      // Count colours on a nearest-neighbour thumbnail to keep this cheap.
+      // Greyscale and 16-bit sources are normalised to 8-bit RGBA first.
+      const { data, info } = await image
+        .resize(COLOUR_SAMPLE_SIZE, COLOUR_SAMPLE_SIZE, {
+          fit: "inside",
+          kernel: "nearest",
+          withoutEnlargement: true,
+        })
+        .toColourspace("srgb")
+        .ensureAlpha()
+        .raw({ depth: "uchar" })
+        .toBuffer({ resolveWithObject: true });
+      const colours = new Set<number>();
+      for (let i = 0; i < data.length; i += info.channels) {
+        colours.add(data.readUIntBE(i, info.channels));
+        if (colours.size > LOW_COLOUR_COUNT) {
+          break;
+        }
+      }
+      if (colours.size <= LOW_COLOUR_COUNT) {
+        return "lossless";
+      }
+
+      return metadata.hasAlpha ? "near-lossless" : "lossy";
+    } catch (error) {
+      throw new CorruptedImageError(
+        "Unable to analyze image for encoding selection",
+        error as Error
+      );
+    }
+  }
+  private async encode(
+    inputBuffer: Buffer,
+    format: OutputFormat,
+    options: EncodeOptions
+  ): Promise<ConvertedImage> {
+    const pipeline = this.applyOutputOptions(
+      sharp(inputBuffer),
+      format,
+      options
+    );
+
+    const { data, info } = await pipeline.toBuffer({
+      resolveWithObject: true,
+    });
+    return {
+      buffer: data,
+      width: info.width,
+      height: info.height,
+      encodingMode: options.encodingMode ?? "lossy",
+      quality: this.clampQuality(options.quality),
+    };
+  }
+  /**
+   * Binary-searches the lowest quality whose SSIM against the (resized)
+   * source reaches the target. When the result exceeds the byte budget, the
+   * highest quality that fits the budget is used instead.
+   */
+  private async encodeToTargetQuality(
+    inputBuffer: Buffer,
+    format: OutputFormat,
+    options: EncodeOptions,
+    target: TargetQualityOptions
+  ): Promise<ConvertedImage> {
+    const reference = await this.createSimilarityReference(
+      inputBuffer,
+      options.resize
+    );
+    const encodeAt = async (quality: number): Promise<ConvertedImage> => {
+      const candidate = await this.encode(inputBuffer, format, {
+        ...options,
+        quality,
+      });
+      const similarity = await this.measureSimilarity(
+        reference,
+        candidate.buffer
+      );
+      return { ...candidate, similarity };
+    };
+
+    let best: ConvertedImage | undefined;
+    let low = target.minQuality;
+    let high = target.maxQuality;
+    while (low <= high) {
+      const quality = Math.floor((low + high) / 2);
+      const candidate = await encodeAt(quality);
+      if ((candidate.similarity ?? 0) >= target.ssim) {
+        best = candidate;
+        high = quality - 1;
+      } else {
+        low = quality + 1;
+      }
+    }
+    // Nothing reached the target, fall back to the highest allowed quality
+    best ??= await encodeAt(target.maxQuality);
+
+    if (target.maxBytes > 0 && best.buffer.length > target.maxBytes) {
+      let budgeted: ConvertedImage | undefined;
+      low = target.minQuality;
+      high = best.quality - 1;
+      while (low <= high) {
+        const quality = Math.floor((low + high) / 2);
+        const candidate = await encodeAt(quality);
+        if (candidate.buffer.length <= target.maxBytes) {
+          budgeted = candidate;
+          low = quality + 1;
+        } else {
+          high = quality - 1;
+        }
+      }
+      best = budgeted ?? (await encodeAt(target.minQuality));
+    }
+
+    return best;
+  }
+  private async createSimilarityReference(
+    inputBuffer: Buffer,
+    resize: ResizeOptions | undefined
+  ): Promise<SimilaritySample> {
+    const pipeline = sharp(inputBuffer);
+    if (resize) {
+      this.applyResize(pipeline, resize);
+    }
+    const { data, info } = await pipeline
+      .removeAlpha()
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    // Compare on a bounded sample so the search cost does not grow with size
+    const scale = Math.min(
+      1,
+      SIMILARITY_SAMPLE_SIZE / Math.max(info.width, info.height)
+    );
+    const width = Math.max(1, Math.round(info.width * scale));
+    const height = Math.max(1, Math.round(info.height * scale));
+    const sample = await sharp(data, {
+      raw: { width: info.width, height: info.height, channels: info.channels },
+    })
+      .resize(width, height, { fit: "fill" })
+      .extractChannel(0)
+      .raw()
+      .toBuffer();
+
+    return { data: sample, width, height };
+  }
+  private async measureSimilarity(
+    reference: SimilaritySample,
+    encoded: Buffer
+  ): Promise<number> {
+    const candidate = await sharp(encoded)
+      .removeAlpha()
+      .greyscale()
+      .resize(reference.width, reference.height, { fit: "fill" })
+      .extractChannel(0)
+      .raw()
+      .toBuffer();
+    return computeSsim(
+      reference.data,
+      candidate,
+      reference.width,
+      reference.height
+    );
+  }
+  private clampQuality(quality: number): number {
+    return Math.max(1, Math.min(100, Math.round(quality)));
+  }
+  private applyResize(pipeline: sharp.Sharp, resize: ResizeOptions): void {
+    pipeline.resize({
+      width: resize.width,
+      fit: resize.fit,
+      withoutEnlargement: resize.withoutEnlargement,
+    });
+  }
+  private applyOutputOptions(
+    pipeline: sharp.Sharp,
+    format: OutputFormat,
+    options: EncodeOptions
+  ): sharp.Sharp {
+    const { resize, encodingMode = "lossy" } = options;
+    const validQuality = this.clampQuality(options.quality);
+    // AVIF and JPEG XL have no near-lossless switch, use a high quality instead
+    const nearLosslessQuality = Math.max(validQuality, 90);
+
+    if (resize) {
+      this.applyResize(pipeline, resize);
+    }
+
+    switch (format) {
+      case "webp":
+        return pipeline.webp({
+          quality: validQuality,
+          effort: 6, // Higher effort for better compression
+          lossless: encodingMode === "lossless",
+          nearLossless: encodingMode === "near-lossless",
+        });
+      case "avif":
+        return pipeline.avif({
+          quality:
+            encodingMode === "near-lossless"
+              ? nearLosslessQuality
+              : validQuality,
+          lossless: encodingMode === "lossless",
+          effort: 4, // AVIF encoding is slow, keep effort moderate
+        });
+      case "jxl":
+        return pipeline.jxl({
+          quality:
+            encodingMode === "near-lossless"
+              ? nearLosslessQuality
+              : validQuality,
+          lossless: encodingMode === "lossless",
+          effort: 7,
+        });
+    }
+  }
   private getContentType(format: string): string {
     const formatMap: Record<string, string> = {
       jpeg: "image/jpeg",
@@ -176,6 +610,8 @@ export class SharpImageProcessor implements ImageProcessor {
       png: "image/png",
       gif: "image/gif",
       webp: "image/webp",
+      avif: "image/avif",
+      jxl: "image/jxl",
     };
 
     return formatMap[format.toLowerCase()] || "application/octet-stream";
@@ -1,5 +1,16 @@
 export { ImageProcessor, SharpImageProcessor } from "./imageProcess";
-export { S3Service, S3Object, AWSS3Service } from "./s3Service";
-export { ConversionService, BatchConversionService } from "./convertionService";
-export { ExpressService, HealthStatus } from "./expressService";
-export { ConversionTracker, FileBasedConversionTracker, ConversionRecord } from "./conversionTracker";
\ No newline at end of file
+export { S3Service, S3Object, S3ObjectInfo, AWSS3Service } from "./s3Service";
+export { ConversionService, BatchConversionService, PlannedOutput, RunOptions, createConversionReport } from "./convertionService";
+export { ReconciliationService } from "./reconciliationService";
+export { ExpressService } from "./expressService";
+export { ConversionTracker, FileBasedConversionTracker, ConversionRecord, FailureRecord, TrackedConversion } from "./conversionTracker";
+export { SqliteConversionTracker } from "./sqliteConversionTracker";
+export { S3ManifestConversionTracker } from "./s3ConversionTracker";
+export { createConversionTracker } from "./trackerFactory";
+export { LeaseStore, FileLeaseStore, S3LeaseStore, NoopLeaseStore, createLeaseStore } from "./leaseStore";
+export { JobService, JobOverrides, ConversionServiceFactory } from "./jobService";
+export { ImageDeliveryService, ImageRequest, DeliveredImage } from "./imageDeliveryService";
+export { UploadConversionService, ConvertedUpload } from "./uploadConversionService";
+export { EventIngestionService, IngestionResult } from "./eventIngestionService";
+export { AuthService, Authenticator, ApiKeyAuthenticator, SignedUrlAuthenticator, RateLimiter, createAuthService, signUrl } from "./authService";
+export { HealthService, HealthCheckResult, ReadinessReport, LivenessReport } from "./healthService";
@@ -0,0 +1,204 @@
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import { Config } from "../config";
+import { ConversionJob, JobEvent, JobRequest } from "../models";
+import { InvalidJobRequestError, JobConflictError } from "../utils/error";
+import logger from "../utils/logger";
+import { ConversionService, createConversionReport } from "./convertionService";
+
+// Finished jobs kept for the job history
+const MAX_FINISHED_JOBS = 100;
+
+export interface JobOverrides {
+  quality: number;
+  dryRun: boolean;
+}
+
+export type ConversionServiceFactory = (
+  overrides: JobOverrides
+) => ConversionService;
+
+/**
+ * Runs conversions started through the HTTP API in the background. Every job
+ * gets its own conversion service, so jobs on disjoint prefixes can run side
+ * by side; jobs on overlapping prefixes are rejected.
+ */
+export class JobService {
+  private readonly config: Config;
+  private readonly createConversionService: ConversionServiceFactory;
+  private readonly jobs: Map<string, ConversionJob> = new Map();
+  // Emits every job's events under its job id
+  private readonly events = new EventEmitter();
+
+  constructor(
+    config: Config,
+    createConversionService: ConversionServiceFactory
+  ) {
+    this.config = config;
+    this.createConversionService = createConversionService;
+    // One listener per connected event stream
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Starts a job and returns it right away; its report is updated while the
+   * conversion runs
+   */
+  startJob(request: unknown): ConversionJob {
+    const { prefix, quality, dryRun } = this.parseRequest(request);
+
+    const conflicting = this.listJobs().find(
+      (job) =>
+        job.status === "running" &&
+        (job.prefix.startsWith(prefix) || prefix.startsWith(job.prefix))
+    );
+    if (conflicting) {
+      throw new JobConflictError(conflicting.id, prefix);
+    }
+
+    const job: ConversionJob = {
+      id: crypto.randomUUID(),
+      status: "running",
+      prefix,
+      quality,
+      dryRun,
+      createdAt: new Date().toISOString(),
+      report: createConversionReport(),
+    };
+    this.jobs.set(job.id, job);
+    this.pruneFinishedJobs();
+
+    void this.runJob(job);
+    return job;
+  }
+
+  getJob(id: string): ConversionJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  // Newest first
+  listJobs(): ConversionJob[] {
+    return [...this.jobs.values()].reverse();
+  }
+
+  /**
+   * Calls the listener for every further event of the job, until the
+   * returned function is called
+   */
+  subscribe(jobId: string, listener: (event: JobEvent) => void): () => void {
+    this.events.on(jobId, listener);
+    return () => {
+      this.events.off(jobId, listener);
+    };
+  }
+
+  private async runJob(job: ConversionJob): Promise<void> {
+    logger.info(`Conversion job started: ${job.id}`, {
+      operation: "job.start",
+      jobId: job.id,
+      prefix: job.prefix,
+      quality: job.quality,
+      dryRun: job.dryRun,
+    });
+
+    try {
+      const conversionService = this.createConversionService({
+        quality: job.quality,
+        dryRun: job.dryRun,
+      });
+      await conversionService.processAllImages(
+        (message) => {
+          job.message = message;
+        },
+        {
+          prefix: job.prefix,
+          report: job.report,
+          onEvent: (event) => this.emit(job.id, event),
+        }
+      );
+
+      // Errors that abort the whole run are reported, not thrown
+      const batchError = job.report.errors.find((error) =>
+        error.startsWith("Batch conversion failed")
+      );
+      if (batchError) {
+        job.status = "failed";
+        job.error = batchError;
+      } else {
+        job.status = "completed";
+      }
+    } catch (error) {
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+    job.finishedAt = new Date().toISOString();
+
+    logger.info(`Conversion job ${job.status}: ${job.id}`, {
+      operation: "job.finish",
+      jobId: job.id,
+      status: job.status,
+      successful: job.report.successful,
+      updated: job.report.updated,
+      failed: job.report.failed,
+      skipped: job.report.skipped,
+      error: job.error,
+    });
+    this.emit(job.id, { type: "job.finished", job });
+  }
+
+  private emit(jobId: string, event: JobEvent): void {
+    try {
+      this.events.emit(jobId, event);
+    } catch (error) {
+      // A failing subscriber must not abort the conversion
+      logger.warn(`Job event listener failed: ${jobId}`, {
+        operation: "job.eventError",
+        jobId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private parseRequest(request: unknown): Required<JobRequest> {
+    const body = (request ?? {}) as Record<string, unknown>;
+    if (typeof body !== "object" || Array.isArray(body)) {
+      throw new InvalidJobRequestError("Request body must be a JSON object");
+    }
+
+    const { sourcePrefix } = this.config.aws;
+    const prefix = body.prefix ?? sourcePrefix;
+    if (typeof prefix !== "string" || !prefix.startsWith(sourcePrefix)) {
+      throw new InvalidJobRequestError(
+        `prefix must be a string starting with the source prefix "${sourcePrefix}"`
+      );
+    }
+
+    const quality = body.quality ?? this.config.conversion.quality;
+    if (
+      typeof quality !== "number" ||
+      !Number.isInteger(quality) ||
+      quality < 1 ||
+      quality > 100
+    ) {
+      throw new InvalidJobRequestError(
+        "quality must be an integer between 1 and 100"
+      );
+    }
+
+    const dryRun = body.dryRun ?? false;
+    if (typeof dryRun !== "boolean") {
+      throw new InvalidJobRequestError("dryRun must be a boolean");
+    }
+
+    return { prefix, quality, dryRun };
+  }
+
+  private pruneFinishedJobs(): void {
+    const finished = [...this.jobs.values()].filter(
+      (job) => job.status !== "running"
+    );
+    finished
+      .slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))
+      .forEach((job) => this.jobs.delete(job.id));
+  }
+}
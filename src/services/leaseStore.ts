@@ -0,0 +1,482 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Config } from "../config";
+import logger from "../utils/logger";
+import { AWSS3Service, S3Service } from "./s3Service";
+
+/** Held leases are renewed this many times per TTL */
+const RENEWALS_PER_TTL = 3;
+/** A takeover guard older than this was left behind by a crashed runner */
+const TAKEOVER_GUARD_TTL_MS = 30000;
+
+/**
+ * Claims source keys so overlapping runs never convert the same object.
+ * Held leases are renewed until they are released, and expire after their
+ * TTL otherwise, so a crashed runner only blocks its keys until then.
+ */
+export interface LeaseStore {
+  /** Returns false while another live runner, or this one, holds the key */
+  acquire(key: string): Promise<boolean>;
+  release(key: string): Promise<void>;
+}
+
+interface LeaseInfo {
+  key: string;
+  owner: string;
+  /** Unique per acquisition, so a runner can tell its lease from a newer one */
+  token: string;
+  hostname: string;
+  pid: number;
+  expiresAt: number;
+}
+
+function defaultOwnerId(): string {
+  return `${os.hostname()}-${process.pid}`;
+}
+
+/**
+ * Renews held leases in the background while their conversion runs
+ */
+class LeaseHeartbeat {
+  private readonly intervalMs: number;
+  private readonly beats: Map<
+    string,
+    { timer: NodeJS.Timeout; renewing: Promise<void> | null }
+  > = new Map();
+
+  constructor(ttlMs: number) {
+    this.intervalMs = Math.max(1, Math.floor(ttlMs / RENEWALS_PER_TTL));
+  }
+
+  /**
+   * Calls `renew` until stopped; it returns false once the lease was lost
+   */
+  start(key: string, renew: () => Promise<boolean>): void {
+    const timer = setInterval(() => {
+      const beat = this.beats.get(key);
+      if (!beat || beat.renewing) return;
+
+      beat.renewing = renew()
+        .then((renewed) => {
+          if (!renewed) {
+            clearInterval(timer);
+            logger.warn(`Lost lease while converting: ${key}`, {
+              operation: "lease.lost",
+              key,
+            });
+          }
+        })
+        .catch((error) => {
+          logger.warn(`Failed to renew lease: ${key}`, {
+            operation: "lease.renewError",
+            key,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        })
+        .finally(() => {
+          beat.renewing = null;
+        });
+    }, this.intervalMs);
+    // A pending renewal must not keep the process alive
+    timer.unref();
+    this.beats.set(key, { timer, renewing: null });
+  }
+
+  /**
+   * Stops renewing, waiting for a renewal in flight so it cannot recreate a
+   * lease after its release
+   */
+  async stop(key: string): Promise<void> {
+    const beat = this.beats.get(key);
+    if (!beat) return;
+
+    this.beats.delete(key);
+    clearInterval(beat.timer);
+    await beat.renewing;
+  }
+}
+
+/**
+ * Used when leasing is disabled; every key can be claimed
+ */
+export class NoopLeaseStore implements LeaseStore {
+  async acquire(_key: string): Promise<boolean> {
+    return true;
+  }
+
+  async release(_key: string): Promise<void> {}
+}
+
+/**
+ * Leases as lock files in a local directory, for runners sharing one
+ * machine or volume. Lock files are created exclusively; a lease of a
+ * process that is no longer running on this host is taken over right away.
+ */
+export class FileLeaseStore implements LeaseStore {
+  private readonly directory: string;
+  private readonly ttlMs: number;
+  private readonly ownerId: string;
+  // Tokens of the leases this runner holds or is acquiring
+  private readonly heldTokens: Map<string, string> = new Map();
+  private readonly heartbeat: LeaseHeartbeat;
+  private directoryReady: Promise<void> | null = null;
+
+  constructor(
+    directory: string,
+    ttlMs: number,
+    ownerId: string = defaultOwnerId()
+  ) {
+    this.directory = directory;
+    this.ttlMs = ttlMs;
+    this.ownerId = ownerId;
+    this.heartbeat = new LeaseHeartbeat(ttlMs);
+  }
+
+  async acquire(key: string): Promise<boolean> {
+    if (this.heldTokens.has(key)) {
+      return false;
+    }
+    const lease = this.createLease(key);
+    this.heldTokens.set(key, lease.token);
+
+    try {
+      await this.ensureDirectory();
+      const lockPath = this.getLockPath(key);
+      if (!(await this.createExclusive(lockPath, lease))) {
+        // A lease of this owner that it no longer holds was left behind
+        const current = await this.readLease(lockPath);
+        if (current && current.owner !== this.ownerId && this.isLive(current)) {
+          this.heldTokens.delete(key);
+          return false;
+        }
+        if (!(await this.takeOver(lockPath, current, lease))) {
+          this.heldTokens.delete(key);
+          return false;
+        }
+        if (current) {
+          logger.info(`Took over expired lease: ${key}`, {
+            operation: "lease.takeover",
+            key,
+            previousOwner: current.owner,
+          });
+        }
+      }
+    } catch (error) {
+      this.heldTokens.delete(key);
+      throw error;
+    }
+
+    this.heartbeat.start(key, () => this.renew(key, lease.token));
+    return true;
+  }
+
+  async release(key: string): Promise<void> {
+    const token = this.heldTokens.get(key);
+    if (!token) return;
+
+    await this.heartbeat.stop(key);
+    this.heldTokens.delete(key);
+    const lockPath = this.getLockPath(key);
+    const current = await this.readLease(lockPath);
+    if (current?.token === token) {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Replaces a stale lease. A guard file lets one runner at a time check and
+   * replace it, so a runner that read the same stale lease earlier finds the
+   * new one and backs off instead of removing it.
+   */
+  private async takeOver(
+    lockPath: string,
+    stale: LeaseInfo | undefined,
+    lease: LeaseInfo
+  ): Promise<boolean> {
+    const guardPath = `${lockPath}.takeover`;
+    if (!(await this.createExclusive(guardPath, lease))) {
+      await this.removeStaleGuard(guardPath);
+      return false;
+    }
+
+    try {
+      const latest = await this.readLease(lockPath);
+      if (latest?.token !== stale?.token) {
+        return false;
+      }
+      await fs.rm(lockPath, { force: true });
+      return await this.createExclusive(lockPath, lease);
+    } finally {
+      await fs.rm(guardPath, { force: true });
+    }
+  }
+
+  private async removeStaleGuard(guardPath: string): Promise<void> {
+    try {
+      const { mtimeMs } = await fs.stat(guardPath);
+      if (Date.now() - mtimeMs > TAKEOVER_GUARD_TTL_MS) {
+        await fs.rm(guardPath, { force: true });
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+
+  private async renew(key: string, token: string): Promise<boolean> {
+    const lockPath = this.getLockPath(key);
+    const current = await this.readLease(lockPath);
+    if (current?.token !== token) {
+      return false;
+    }
+    const tempPath = `${lockPath}.${token}.tmp`;
+    await fs.writeFile(
+      tempPath,
+      JSON.stringify({ ...current, expiresAt: Date.now() + this.ttlMs }),
+      "utf-8"
+    );
+    await fs.rename(tempPath, lockPath);
+    return true;
+  }
+
+  /**
+   * Links a complete temp file into place, which fails when the target
+   * exists, so readers never see a half-written lease
+   */
+  private async createExclusive(
+    filePath: string,
+    lease: LeaseInfo
+  ): Promise<boolean> {
+    const tempPath = `${filePath}.${lease.token}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(lease), "utf-8");
+    try {
+      await fs.link(tempPath, filePath);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+      return false;
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  private isLive(lease: LeaseInfo): boolean {
+    if (lease.expiresAt <= Date.now()) {
+      return false;
+    }
+    if (lease.hostname !== os.hostname()) {
+      return true;
+    }
+    try {
+      process.kill(lease.pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM means the process exists but belongs to another user
+      return (error as NodeJS.ErrnoException).code === "EPERM";
+    }
+  }
+
+  private async readLease(lockPath: string): Promise<LeaseInfo | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(lockPath, "utf-8")) as LeaseInfo;
+    } catch (error) {
+      // A missing or unreadable lock file is treated as free
+      return undefined;
+    }
+  }
+
+  private createLease(key: string): LeaseInfo {
+    return {
+      key,
+      owner: this.ownerId,
+      token: crypto.randomUUID(),
+      hostname: os.hostname(),
+      pid: process.pid,
+      expiresAt: Date.now() + this.ttlMs,
+    };
+  }
+
+  // Keys can be longer than a file name allows, so the file is named by hash
+  private getLockPath(key: string): string {
+    const hash = crypto.createHash("sha1").update(key).digest("hex");
+    return path.join(this.directory, `${hash}.lock`);
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.directoryReady) {
+      this.directoryReady = fs
+        .mkdir(this.directory, { recursive: true })
+        .then(() => undefined);
+    }
+    return this.directoryReady;
+  }
+}
+
+/**
+ * Leases as marker objects in S3, for runners on different machines. Markers
+ * are written with conditional puts, so exactly one runner creates a marker
+ * or replaces an expired one.
+ */
+export class S3LeaseStore implements LeaseStore {
+  private readonly s3Service: S3Service;
+  private readonly bucket: string;
+  private readonly prefix: string;
+  private readonly ttlMs: number;
+  private readonly ownerId: string;
+  // ETags of the markers written by this runner, needed to renew and release
+  // them; undefined while the marker is being acquired
+  private readonly heldMarkers: Map<string, string | undefined> = new Map();
+  private readonly heartbeat: LeaseHeartbeat;
+
+  constructor(
+    s3Service: S3Service,
+    bucket: string,
+    prefix: string,
+    ttlMs: number,
+    ownerId: string = defaultOwnerId()
+  ) {
+    this.s3Service = s3Service;
+    this.bucket = bucket;
+    this.prefix = prefix;
+    this.ttlMs = ttlMs;
+    this.ownerId = ownerId;
+    this.heartbeat = new LeaseHeartbeat(ttlMs);
+  }
+
+  async acquire(key: string): Promise<boolean> {
+    if (this.heldMarkers.has(key)) {
+      return false;
+    }
+    this.heldMarkers.set(key, undefined);
+
+    let etag: string | undefined;
+    try {
+      etag = await this.claimMarker(key);
+    } catch (error) {
+      this.heldMarkers.delete(key);
+      throw error;
+    }
+    if (!etag) {
+      this.heldMarkers.delete(key);
+      return false;
+    }
+
+    this.heldMarkers.set(key, etag);
+    this.heartbeat.start(key, () => this.renew(key));
+    return true;
+  }
+
+  async release(key: string): Promise<void> {
+    if (!this.heldMarkers.has(key)) return;
+
+    await this.heartbeat.stop(key);
+    const etag = this.heldMarkers.get(key);
+    this.heldMarkers.delete(key);
+    if (!etag) return;
+
+    try {
+      await this.s3Service.deleteObjectIfMatch(
+        this.bucket,
+        this.getMarkerKey(key),
+        etag
+      );
+    } catch (error) {
+      // The marker expires on its own, so a failed release is not fatal
+      logger.warn(`Failed to release lease: ${key}`, {
+        operation: "lease.releaseError",
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async claimMarker(key: string): Promise<string | undefined> {
+    const markerKey = this.getMarkerKey(key);
+
+    let etag = await this.writeMarker(key);
+    if (!etag) {
+      const current = await this.s3Service.getObjectInfo(
+        this.bucket,
+        markerKey
+      );
+      if (!current) {
+        // Released between both requests
+        etag = await this.writeMarker(key);
+      } else if (
+        // A marker of this owner that it no longer holds was left behind
+        current.metadata["lease-owner"] === this.ownerId ||
+        Number(current.metadata["lease-expires-at"]) <= Date.now()
+      ) {
+        etag = await this.writeMarker(key, current.etag);
+        if (etag) {
+          logger.info(`Took over expired lease: ${key}`, {
+            operation: "lease.takeover",
+            key,
+            previousOwner: current.metadata["lease-owner"],
+          });
+        }
+      }
+    }
+    return etag;
+  }
+
+  // Conditional on the marker this runner wrote, so a lost lease stays lost
+  private async renew(key: string): Promise<boolean> {
+    const etag = this.heldMarkers.get(key);
+    if (!etag) {
+      return false;
+    }
+    const renewed = await this.writeMarker(key, etag);
+    if (!renewed) {
+      return false;
+    }
+    this.heldMarkers.set(key, renewed);
+    return true;
+  }
+
+  private writeMarker(key: string, etag?: string): Promise<string | undefined> {
+    const expiresAt = Date.now() + this.ttlMs;
+    return this.s3Service.putObjectIfMatch(
+      this.bucket,
+      this.getMarkerKey(key),
+      Buffer.from(
+        JSON.stringify({ key, owner: this.ownerId, expiresAt }),
+        "utf-8"
+      ),
+      { "lease-owner": this.ownerId, "lease-expires-at": String(expiresAt) },
+      etag
+    );
+  }
+
+  private getMarkerKey(key: string): string {
+    return `${this.prefix}${key}.lease`;
+  }
+}
+
+/**
+ * Creates the lease store for the configured backend
+ */
+export function createLeaseStore(
+  config: Config,
+  s3Service?: S3Service
+): LeaseStore {
+  const { backend, ttlMs, directory, s3 } = config.leasing;
+  switch (backend) {
+    case "s3":
+      return new S3LeaseStore(
+        s3Service ?? new AWSS3Service(config),
+        s3.bucket,
+        s3.prefix,
+        ttlMs
+      );
+    case "file":
+      return new FileLeaseStore(directory, ttlMs);
+    case "none":
+      return new NoopLeaseStore();
+  }
+}
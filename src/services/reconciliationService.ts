@@ -0,0 +1,361 @@
+import { Config } from "../config";
+import {
+  EncodingMode,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  ReconciliationOptions,
+  ReconciliationReport,
+  SizeVariant,
+} from "../models";
+import logger from "../utils/logger";
+import { formatFromKey, normalizeFormat } from "../utils/imageFormat";
+import { ConversionService } from "./convertionService";
+import { ConversionRecord, ConversionTracker } from "./conversionTracker";
+import { S3Object, S3ObjectInfo, S3Service } from "./s3Service";
+
+/**
+ * Compares the source objects, the converted outputs and the tracker, and
+ * optionally repairs the differences between them
+ */
+export class ReconciliationService {
+  private readonly s3Service: S3Service;
+  private readonly conversionService: ConversionService;
+  private readonly conversionTracker: ConversionTracker;
+  private readonly config: Config;
+  private readonly supportedFormats: Set<string>;
+
+  constructor(
+    s3Service: S3Service,
+    conversionService: ConversionService,
+    conversionTracker: ConversionTracker,
+    config: Config
+  ) {
+    this.s3Service = s3Service;
+    this.conversionService = conversionService;
+    this.conversionTracker = conversionTracker;
+    this.config = config;
+    this.supportedFormats = new Set(
+      config.conversion.supportedFormats.map(normalizeFormat)
+    );
+  }
+
+  async reconcile(
+    options: ReconciliationOptions = {},
+    onProgress?: (msg: string) => void
+  ): Promise<ReconciliationReport> {
+    await this.conversionTracker.loadConvertedKeys(onProgress);
+
+    onProgress?.("Listing source and destination objects...");
+    const { sources, outputs } = await this.listObjects();
+    const records = await this.conversionTracker.getRecords({
+      prefix: this.config.aws.sourcePrefix,
+    });
+
+    const report: ReconciliationReport = {
+      sourceCount: sources.length,
+      outputCount: outputs.length,
+      trackedCount: records.length,
+      sourcesWithoutOutputs: [],
+      orphanOutputs: [],
+      trackedMissingTargets: [],
+      untrackedOutputs: [],
+      fixes: { requeued: 0, deletedOrphans: 0, backfilled: 0 },
+    };
+
+    const outputKeys = new Set(outputs.map((output) => output.key));
+    const sourcesByKey = new Map(sources.map((source) => [source.key, source]));
+    const sourcesByBase = new Map(
+      sources.map((source) => [this.getSourceBase(source.key), source])
+    );
+    const trackedTargets = new Map(
+      records.map((record) => [
+        record.sourceKey,
+        new Set(
+          record.outputs?.map((output) => output.targetKey) ?? [
+            record.targetKey,
+          ]
+        ),
+      ])
+    );
+
+    for (const source of sources) {
+      const planned = this.conversionService.getPlannedOutputs(source.key);
+      if (planned.some((output) => !outputKeys.has(output.targetKey))) {
+        report.sourcesWithoutOutputs.push(source.key);
+      }
+    }
+
+    const outputsBySource = new Map<string, S3Object[]>();
+    for (const output of outputs) {
+      const source = this.findSource(output.key, sourcesByBase);
+      if (!source) {
+        report.orphanOutputs.push(output.key);
+        continue;
+      }
+      outputsBySource.set(source.key, [
+        ...(outputsBySource.get(source.key) ?? []),
+        output,
+      ]);
+      if (!trackedTargets.get(source.key)?.has(output.key)) {
+        report.untrackedOutputs.push(output.key);
+      }
+    }
+
+    const requeueKeys = new Set(report.sourcesWithoutOutputs);
+    for (const [sourceKey, targetKeys] of trackedTargets) {
+      for (const targetKey of targetKeys) {
+        if (!outputKeys.has(targetKey)) {
+          report.trackedMissingTargets.push(targetKey);
+          if (sourcesByKey.has(sourceKey)) {
+            requeueKeys.add(sourceKey);
+          }
+        }
+      }
+    }
+
+    logger.info("Reconciliation completed", {
+      operation: "reconcile.report",
+      sources: report.sourceCount,
+      outputs: report.outputCount,
+      tracked: report.trackedCount,
+      sourcesWithoutOutputs: report.sourcesWithoutOutputs.length,
+      orphanOutputs: report.orphanOutputs.length,
+      trackedMissingTargets: report.trackedMissingTargets.length,
+      untrackedOutputs: report.untrackedOutputs.length,
+    });
+
+    // Backfill first, so requeued conversions start from a complete tracker
+    if (options.backfill) {
+      const untrackedSources = new Set(
+        report.untrackedOutputs.map(
+          (key) => this.findSource(key, sourcesByBase)!.key
+        )
+      );
+      report.fixes.backfilled = await this.backfillTracker(
+        [...untrackedSources].map((key) => sourcesByKey.get(key)!),
+        outputsBySource,
+        options.dryRun ?? false,
+        onProgress
+      );
+    }
+
+    if (options.requeue && requeueKeys.size > 0) {
+      report.fixes.requeued = requeueKeys.size;
+      if (!options.dryRun) {
+        onProgress?.(`Re-queueing ${requeueKeys.size} sources...`);
+        await this.conversionService.reprocessImages(
+          [...requeueKeys].map((key) => sourcesByKey.get(key)!)
+        );
+      }
+    }
+
+    if (options.deleteOrphans && report.orphanOutputs.length > 0) {
+      report.fixes.deletedOrphans = report.orphanOutputs.length;
+      if (!options.dryRun) {
+        onProgress?.(
+          `Deleting ${report.orphanOutputs.length} orphaned outputs...`
+        );
+        await this.s3Service.deleteObjects(
+          this.config.aws.destinationBucket,
+          report.orphanOutputs
+        );
+        logger.info("Deleted orphaned outputs", {
+          operation: "reconcile.deleteOrphans",
+          count: report.orphanOutputs.length,
+        });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Lists sources and outputs, with a single listing when one location
+   * contains the other. Sources are recognised by extension only.
+   */
+  private async listObjects(): Promise<{
+    sources: S3Object[];
+    outputs: S3Object[];
+  }> {
+    const { sourceBucket, sourcePrefix, destinationBucket, destinationPrefix } =
+      this.config.aws;
+
+    let sourceObjects: S3Object[];
+    let destinationObjects: S3Object[];
+    if (
+      sourceBucket === destinationBucket &&
+      (sourcePrefix.startsWith(destinationPrefix) ||
+        destinationPrefix.startsWith(sourcePrefix))
+    ) {
+      const objects = await this.s3Service.listObjects(
+        sourceBucket,
+        sourcePrefix.length < destinationPrefix.length
+          ? sourcePrefix
+          : destinationPrefix
+      );
+      sourceObjects = objects.filter((object) =>
+        object.key.startsWith(sourcePrefix)
+      );
+      destinationObjects = objects.filter((object) =>
+        object.key.startsWith(destinationPrefix)
+      );
+    } else {
+      sourceObjects = await this.s3Service.listObjects(
+        sourceBucket,
+        sourcePrefix
+      );
+      destinationObjects = await this.s3Service.listObjects(
+        destinationBucket,
+        destinationPrefix
+      );
+    }
+
+    return {
+      sources: sourceObjects.filter((object) => {
+        const format = formatFromKey(object.key);
+        return format !== undefined && this.supportedFormats.has(format);
+      }),
+      outputs: destinationObjects.filter(
+        (object) => this.getOutputFormat(object.key) !== undefined
+      ),
+    };
+  }
+
+  private async backfillTracker(
+    sources: S3Object[],
+    outputsBySource: Map<string, S3Object[]>,
+    dryRun: boolean,
+    onProgress?: (msg: string) => void
+  ): Promise<number> {
+    if (dryRun || sources.length === 0) {
+      return sources.length;
+    }
+
+    onProgress?.(`Backfilling tracker for ${sources.length} sources...`);
+    const { concurrency } = this.config.processing;
+    let backfilled = 0;
+    for (let i = 0; i < sources.length; i += concurrency) {
+      await Promise.all(
+        sources.slice(i, i + concurrency).map(async (source) => {
+          const infos = await Promise.all(
+            (outputsBySource.get(source.key) ?? []).map((output) =>
+              this.s3Service.getObjectInfo(
+                this.config.aws.destinationBucket,
+                output.key
+              )
+            )
+          );
+          const outputs = infos.filter(
+            (info): info is S3ObjectInfo => info !== undefined
+          );
+          if (outputs.length === 0) {
+            return;
+          }
+          await this.conversionTracker.markAsConverted(
+            this.toBackfillRecord(source, outputs)
+          );
+          backfilled++;
+        })
+      );
+    }
+    await this.conversionTracker.flush();
+
+    logger.info("Backfilled tracker from output metadata", {
+      operation: "reconcile.backfill",
+      count: backfilled,
+    });
+    return backfilled;
+  }
+
+  /**
+   * Rebuilds a tracker record from the metadata written with each output
+   */
+  private toBackfillRecord(
+    source: S3Object,
+    outputs: S3ObjectInfo[]
+  ): ConversionRecord {
+    const plannedKeys = this.conversionService
+      .getPlannedOutputs(source.key)
+      .map((planned) => planned.targetKey);
+    const primary =
+      plannedKeys
+        .map((key) => outputs.find((output) => output.key === key))
+        .find((output) => output !== undefined) ?? outputs[0]!;
+    const metadata = primary.metadata;
+    const originalSize = Number(metadata["original-size"]) || source.size;
+    const compressionRatio = (size: number) =>
+      originalSize > 0 ? (originalSize - size) / originalSize : 0;
+    const quality = Number(metadata["conversion-quality"]) || undefined;
+
+    const record: ConversionRecord = {
+      sourceKey: source.key,
+      targetKey: primary.key,
+      convertedAt:
+        metadata["conversion-timestamp"] ?? primary.lastModified.toISOString(),
+      originalSize,
+      convertedSize: primary.size,
+      compressionRatio: compressionRatio(primary.size),
+      encodingMode: metadata["encoding-mode"] as EncodingMode | undefined,
+      quality,
+      outputs: outputs.map((output) => ({
+        format: this.getOutputFormat(output.key)!,
+        size: this.getOutputSize(output),
+        targetKey: output.key,
+        convertedSize: output.size,
+        quality: Number(output.metadata["conversion-quality"]) || undefined,
+      })),
+    };
+    // Outputs of an older source version keep its ETag, so the next run
+    // still detects the change and converts again
+    if (metadata["source-etag"]) {
+      record.sourceEtag = metadata["source-etag"];
+    }
+    if (metadata["source-last-modified"]) {
+      record.sourceLastModified = metadata["source-last-modified"];
+    }
+    return record;
+  }
+
+  private getOutputFormat(key: string): OutputFormat | undefined {
+    const extension = key.substring(key.lastIndexOf(".") + 1).toLowerCase();
+    return OUTPUT_FORMATS.find((format) => format === extension);
+  }
+
+  private getOutputSize(output: S3ObjectInfo): SizeVariant {
+    const size = output.metadata["output-size"];
+    if (size) {
+      return size === "original" ? size : Number(size);
+    }
+    const match = /-(\d+)w\.[^./]+$/.exec(output.key);
+    return match ? Number(match[1]) : "original";
+  }
+
+  // Source key relative to the source prefix, without its extension
+  private getSourceBase(sourceKey: string): string {
+    const relativeKey = sourceKey.substring(
+      this.config.aws.sourcePrefix.length
+    );
+    const lastSlashIndex = relativeKey.lastIndexOf("/");
+    const lastDotIndex = relativeKey.lastIndexOf(".");
+    return lastDotIndex > lastSlashIndex
+      ? relativeKey.substring(0, lastDotIndex)
+      : relativeKey;
+  }
+
+  /**
+   * Maps an output back to its source. A `-640w` suffix may belong to a
+   * resized variant or to the source name itself, so both are tried.
+   */
+  private findSource(
+    outputKey: string,
+    sourcesByBase: Map<string, S3Object>
+  ): S3Object | undefined {
+    const relativeKey = outputKey.substring(
+      this.config.aws.destinationPrefix.length
+    );
+    const base = relativeKey.substring(0, relativeKey.lastIndexOf("."));
+    return (
+      sourcesByBase.get(base) ?? sourcesByBase.get(base.replace(/-\d+w$/, ""))
+    );
+  }
+}
@@ -0,0 +1,494 @@
+import os from "os";
+import logger from "../utils/logger";
+import { S3OperationError } from "../utils/error";
+import {
+  ConversionRecord,
+  ConversionTracker,
+  FailureRecord,
+  createRecordFilter,
+  RecordQuery,
+  TrackedConversion,
+} from "./conversionTracker";
+import { S3Service } from "./s3Service";
+
+// Records per shard written by a single runner
+const BATCH_SIZE = 100;
+// Longest a record waits for its shard; every flush writes a shard, so this
+// also bounds how many small shards single conversions produce
+const FLUSH_INTERVAL_MS = 10000;
+// Shards from other runners are picked up at most this often during a run
+const REFRESH_INTERVAL_MS = 30000;
+// Loading more shards than this merges them into one on startup
+const COMPACTION_THRESHOLD = 200;
+const SHARD_EXTENSION = ".ndjson";
+
+interface TrackedEntry extends TrackedConversion {
+  convertedAt: string;
+}
+
+// Shards hold conversion records and failure records, one per line
+type ManifestEntry = ConversionRecord | FailureRecord;
+
+interface ShardContents {
+  records: Map<string, ConversionRecord>;
+  failures: Map<string, FailureRecord>;
+}
+
+function isFailure(entry: ManifestEntry): entry is FailureRecord {
+  return "errorType" in entry;
+}
+
+/**
+ * Conversion tracker shared between runners through S3. Every runner only
+ * writes new, immutable manifest shards under the configured prefix, so
+ * concurrent writers never overwrite each other; readers merge all shards,
+ * keeping the most recent record per source key.
+ */
+export class S3ManifestConversionTracker implements ConversionTracker {
+  private readonly s3Service: S3Service;
+  private readonly bucket: string;
+  private readonly prefix: string;
+  private readonly runnerId: string;
+  private convertedKeys: Map<string, TrackedEntry> = new Map();
+  private failures: Map<string, FailureRecord> = new Map();
+  private loadedShards: Set<string> = new Set();
+  private pendingEntries: ManifestEntry[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private shardSequence = 0;
+  private isLoaded = false;
+  private lastRefresh = 0;
+  private refreshing: Promise<void> | null = null;
+
+  constructor(
+    s3Service: S3Service,
+    bucket: string,
+    prefix: string,
+    runnerId: string = `${os.hostname()}-${process.pid}`
+  ) {
+    this.s3Service = s3Service;
+    this.bucket = bucket;
+    this.prefix = prefix;
+    this.runnerId = runnerId.replace(/[^A-Za-z0-9._-]/g, "_");
+  }
+
+  async loadConvertedKeys(onProgress?: (msg: string) => void): Promise<void> {
+    if (this.isLoaded) return;
+
+    const shardKeys = await this.listShardKeys();
+    let compactable: ShardContents | undefined;
+    if (shardKeys.length > COMPACTION_THRESHOLD) {
+      compactable = { records: new Map(), failures: new Map() };
+    }
+
+    const loaded = await this.loadShards(shardKeys, compactable);
+    if (compactable) {
+      await this.compact(loaded, compactable);
+    }
+
+    this.isLoaded = true;
+    this.lastRefresh = Date.now();
+    onProgress?.(
+      `Loaded ${this.convertedKeys.size} previously converted images from ${loaded.length} manifest shards`
+    );
+    logger.info(
+      `Loaded ${this.convertedKeys.size} previously converted images from ${loaded.length} manifest shards`,
+      {
+        operation: "tracker.load",
+        bucket: this.bucket,
+        prefix: this.prefix,
+        shardCount: loaded.length,
+        convertedCount: this.convertedKeys.size,
+      }
+    );
+  }
+
+  async isConverted(sourceKey: string): Promise<boolean> {
+    return (await this.getConversionState(sourceKey)) !== undefined;
+  }
+
+  async getConversionState(
+    sourceKey: string
+  ): Promise<TrackedConversion | undefined> {
+    await this.loadConvertedKeys();
+    await this.refreshIfStale();
+
+    const entry = this.convertedKeys.get(sourceKey);
+    return entry
+      ? {
+          targetKeys: [...entry.targetKeys],
+          sourceEtag: entry.sourceEtag,
+          sourceLastModified: entry.sourceLastModified,
+        }
+      : undefined;
+  }
+
+  async markAsConverted(record: ConversionRecord): Promise<void> {
+    await this.loadConvertedKeys();
+
+    this.trackEntry(record);
+    await this.addPendingEntry(record);
+
+    logger.info(
+      `Image converted and tracked: ${record.sourceKey} -> ${record.targetKey}`,
+      {
+        operation: "conversion.tracked",
+        sourceKey: record.sourceKey,
+        targetKey: record.targetKey,
+        originalSize: record.originalSize,
+        convertedSize: record.convertedSize,
+        compressionRatio: record.compressionRatio,
+        sizeSavedBytes: record.originalSize - record.convertedSize,
+        convertedAt: record.convertedAt,
+      }
+    );
+  }
+
+  async markAsFailed(failure: FailureRecord): Promise<void> {
+    await this.loadConvertedKeys();
+
+    this.trackEntry(failure);
+    await this.addPendingEntry(failure);
+  }
+
+  async getFailures(errorType?: string): Promise<FailureRecord[]> {
+    await this.loadConvertedKeys();
+    await this.refreshIfStale();
+
+    return [...this.failures.values()].filter(
+      (failure) => !errorType || failure.errorType === errorType
+    );
+  }
+
+  async getConvertedKeys(): Promise<Set<string>> {
+    await this.loadConvertedKeys();
+    return new Set(this.convertedKeys.keys());
+  }
+
+  // Full records are not kept in memory, so every shard is read again
+  async getRecords(query: RecordQuery = {}): Promise<ConversionRecord[]> {
+    const contents: ShardContents = { records: new Map(), failures: new Map() };
+    await this.loadShards(await this.listShardKeys(), contents);
+    this.pendingEntries.forEach((entry) => this.mergeEntry(contents, entry));
+    return [...contents.records.values()].filter(createRecordFilter(query));
+  }
+
+  /**
+   * Rewrites every shard without the matching records. Shards written by
+   * other runners in the meantime are left alone; they only hold newer
+   * conversions.
+   */
+  async removeRecords(query: RecordQuery): Promise<number> {
+    await this.loadConvertedKeys();
+    await this.flush();
+
+    const shardKeys = await this.listShardKeys();
+    const contents: ShardContents = { records: new Map(), failures: new Map() };
+    const loaded = await this.loadShards(shardKeys, contents);
+
+    const removed = [...contents.records.values()].filter(
+      createRecordFilter(query)
+    );
+    if (removed.length === 0) return 0;
+
+    removed.forEach((record) => {
+      contents.records.delete(record.sourceKey);
+      this.convertedKeys.delete(record.sourceKey);
+    });
+    await this.replaceShards(loaded, contents);
+
+    logger.info(`Removed ${removed.length} records from tracker manifest`, {
+      operation: "tracker.remove",
+      shardCount: loaded.length,
+      removedCount: removed.length,
+      totalRecords: contents.records.size,
+    });
+    return removed.length;
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pendingEntries.length === 0) return;
+
+    const entries = this.pendingEntries;
+    this.pendingEntries = [];
+    try {
+      const shardKey = await this.writeShard(entries);
+      logger.info(
+        `Wrote tracker manifest shard with ${entries.length} records`,
+        {
+          operation: "tracker.batchWrite",
+          shardKey,
+          recordCount: entries.length,
+        }
+      );
+    } catch (error) {
+      this.pendingEntries.unshift(...entries);
+      logger.error("Failed to write tracker manifest shard", {
+        operation: "tracker.batchWriteError",
+        error: error instanceof Error ? error.message : String(error),
+        recordCount: entries.length,
+      });
+      throw error;
+    }
+  }
+
+  private async addPendingEntry(entry: ManifestEntry): Promise<void> {
+    this.pendingEntries.push(entry);
+    if (this.pendingEntries.length >= BATCH_SIZE) {
+      await this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      // flush() logs the error and keeps the entries for the next attempt
+      this.flush().catch(() => this.scheduleFlush());
+    }, FLUSH_INTERVAL_MS);
+    // Shutdown flushes what is left, the timer must not keep the process alive
+    this.flushTimer.unref();
+  }
+
+  private async refreshIfStale(): Promise<void> {
+    if (Date.now() - this.lastRefresh < REFRESH_INTERVAL_MS) return;
+
+    if (!this.refreshing) {
+      this.refreshing = (async () => {
+        try {
+          const newShards = (await this.listShardKeys()).filter(
+            (key) => !this.loadedShards.has(key)
+          );
+          if (newShards.length > 0) {
+            await this.loadShards(newShards);
+            logger.debug(
+              `Merged ${newShards.length} new tracker manifest shards`,
+              {
+                operation: "tracker.refresh",
+                shardCount: newShards.length,
+              }
+            );
+          }
+        } catch (error) {
+          // A failed refresh only means other runners' work is seen later
+          logger.warn("Failed to refresh tracker manifest shards", {
+            operation: "tracker.refreshError",
+            error: error instanceof Error ? error.message : String(error),
+          });
+        } finally {
+          this.lastRefresh = Date.now();
+          this.refreshing = null;
+        }
+      })();
+    }
+    await this.refreshing;
+  }
+
+  async checkWritable(): Promise<void> {
+    // Not a shard, so loading the manifest never reads it
+    const probeKey = `${this.prefix}health/${this.runnerId}.probe`;
+    await this.s3Service.putObject(
+      this.bucket,
+      probeKey,
+      Buffer.from(new Date().toISOString(), "utf-8"),
+      {},
+      "text/plain"
+    );
+    // The probe checks puts; a leftover probe is harmless
+    await this.s3Service
+      .deleteObjects(this.bucket, [probeKey])
+      .catch((error) => {
+        logger.warn(`Failed to delete tracker probe: ${probeKey}`, {
+          operation: "tracker.probeCleanup",
+          key: probeKey,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
+  private async listShardKeys(): Promise<string[]> {
+    const objects = await this.s3Service.listObjects(this.bucket, this.prefix);
+    return objects
+      .map((object) => object.key)
+      .filter((key) => key.endsWith(SHARD_EXTENSION));
+  }
+
+  /**
+   * Reads shards into the in-memory index (and `collect`, when given).
+   * Returns the keys of the shards that were actually read.
+   */
+  private async loadShards(
+    shardKeys: string[],
+    collect?: ShardContents
+  ): Promise<string[]> {
+    const loaded: string[] = [];
+
+    for (const shardKey of shardKeys) {
+      let data: Buffer;
+      try {
+        data = await this.s3Service.downloadImage(this.bucket, shardKey);
+      } catch (error) {
+        // Another runner compacted the shard away after we listed it; its
+        // records live on in the compacted shard picked up on refresh
+        if (error instanceof S3OperationError && error.code === "NoSuchKey") {
+          continue;
+        }
+        throw error;
+      }
+
+      const lines = data.toString("utf-8").split("\n");
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          const entry: ManifestEntry = JSON.parse(line);
+          this.trackEntry(entry);
+          if (collect) {
+            this.mergeEntry(collect, entry);
+          }
+        } catch (parseError) {
+          logger.warn("Invalid JSON line in tracker manifest shard", {
+            shardKey,
+            line,
+            error: parseError,
+          });
+        }
+      }
+      this.loadedShards.add(shardKey);
+      loaded.push(shardKey);
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Replaces the given shards by a single shard holding their merged records.
+   * Only shards that were read are deleted, so records written concurrently
+   * by other runners are never lost.
+   */
+  private async compact(
+    shardKeys: string[],
+    contents: ShardContents
+  ): Promise<void> {
+    try {
+      await this.replaceShards(shardKeys, contents);
+      logger.info(
+        `Compacted ${shardKeys.length} tracker manifest shards into one`,
+        {
+          operation: "tracker.consolidate",
+          shardCount: shardKeys.length,
+          totalRecords: contents.records.size,
+          totalFailures: contents.failures.size,
+        }
+      );
+    } catch (error) {
+      logger.error("Failed to compact tracker manifest shards", {
+        operation: "tracker.consolidateError",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async replaceShards(
+    shardKeys: string[],
+    contents: ShardContents
+  ): Promise<void> {
+    const entries = [
+      ...contents.records.values(),
+      ...contents.failures.values(),
+    ];
+    if (entries.length > 0) {
+      await this.writeShard(entries, "compacted");
+    }
+    await this.s3Service.deleteObjects(this.bucket, shardKeys);
+    shardKeys.forEach((key) => this.loadedShards.delete(key));
+  }
+
+  private async writeShard(
+    entries: ManifestEntry[],
+    kind: string = "records"
+  ): Promise<string> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const shardKey = `${this.prefix}${timestamp}-${this.runnerId}-${kind}-${this
+      .shardSequence++}${SHARD_EXTENSION}`;
+    const body = entries.map((entry) => JSON.stringify(entry)).join("\n");
+
+    await this.s3Service.putObject(
+      this.bucket,
+      shardKey,
+      Buffer.from(body + "\n", "utf-8"),
+      { "runner-id": this.runnerId, "record-count": String(entries.length) },
+      "application/x-ndjson"
+    );
+    this.loadedShards.add(shardKey);
+    return shardKey;
+  }
+
+  // Latest conversion wins, whichever shard or runner it came from
+  private trackEntry(entry: ManifestEntry): void {
+    if (isFailure(entry)) {
+      this.applyFailure(this.convertedKeys, this.failures, entry);
+      return;
+    }
+
+    const record = entry;
+    const existing = this.convertedKeys.get(record.sourceKey);
+    if (existing && existing.convertedAt > record.convertedAt) {
+      return;
+    }
+    this.clearResolvedFailure(this.failures, record);
+    this.convertedKeys.set(record.sourceKey, {
+      targetKeys: record.outputs?.map((output) => output.targetKey) ?? [
+        record.targetKey,
+      ],
+      sourceEtag: record.sourceEtag,
+      sourceLastModified: record.sourceLastModified,
+      convertedAt: record.convertedAt,
+    });
+  }
+
+  private mergeEntry(contents: ShardContents, entry: ManifestEntry): void {
+    if (isFailure(entry)) {
+      this.applyFailure(contents.records, contents.failures, entry);
+      return;
+    }
+
+    const existing = contents.records.get(entry.sourceKey);
+    if (!existing || existing.convertedAt <= entry.convertedAt) {
+      this.clearResolvedFailure(contents.failures, entry);
+      contents.records.set(entry.sourceKey, entry);
+    }
+  }
+
+  // A failure stands until a later successful conversion of the same key
+  private applyFailure(
+    conversions: Map<string, { convertedAt: string }>,
+    failures: Map<string, FailureRecord>,
+    failure: FailureRecord
+  ): void {
+    const conversion = conversions.get(failure.sourceKey);
+    const existing = failures.get(failure.sourceKey);
+    if (
+      (conversion && conversion.convertedAt > failure.failedAt) ||
+      (existing && existing.failedAt > failure.failedAt)
+    ) {
+      return;
+    }
+    failures.set(failure.sourceKey, failure);
+  }
+
+  private clearResolvedFailure(
+    failures: Map<string, FailureRecord>,
+    record: ConversionRecord
+  ): void {
+    const failure = failures.get(record.sourceKey);
+    if (failure && failure.failedAt <= record.convertedAt) {
+      failures.delete(record.sourceKey);
+    }
+  }
+}
@@ -1,15 +1,31 @@
 import {
   S3Client,
   ListObjectsV2Command,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
   HeadBucketCommand,
+  HeadObjectCommand,
   ListObjectsV2CommandOutput,
   S3ServiceException,
   GetObjectCommandOutput,
   GetObjectCommand,
   PutObjectCommand,
 } from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import { Readable } from "stream";
 import { Config } from "../config/index";
 import axios from "axios";
+import { S3OperationError } from "../utils/error";
+import logger from "../utils/logger";
+import metrics from "../utils/metrics";
+import {
+  MAGIC_BYTES_LENGTH,
+  formatFromContentType,
+  formatFromKey,
+  formatFromMagicBytes,
+  isKnownImageFormat,
+  normalizeFormat,
+} from "../utils/imageFormat";
 
 export interface S3Object {
   key: string;
@@ -18,13 +34,24 @@ export interface S3Object {
   etag: string;
 }
 
+export interface S3ObjectInfo extends S3Object {
+  metadata: Record<string, string>;
+  contentType?: string | undefined;
+}
+
 export interface S3Service {
   listImages(bucketName: string, prefix?: string): Promise<S3Object[]>;
+  listObjects(bucketName: string, prefix?: string): Promise<S3Object[]>;
+  listFirstObject(
+    bucketName: string,
+    prefix?: string
+  ): Promise<S3Object | undefined>;
   uploadImage(
     bucketName: string,
     key: string,
     buffer: Buffer,
-    metadata: Record<string, string>
+    metadata: Record<string, string>,
+    contentType?: string
   ): Promise<void>;
   healthCheck(): Promise<{
     status: "healthy" | "unhealthy";
@@ -35,6 +62,39 @@ export interface S3Service {
     };
   }>;
   downloadImage(bucketName: string, key: string): Promise<Buffer>;
+  downloadImageStream(bucketName: string, key: string): Promise<Readable>;
+  uploadImageStream(
+    bucketName: string,
+    key: string,
+    body: Readable,
+    metadata: Record<string, string>,
+    contentType?: string
+  ): Promise<void>;
+  objectExists(bucketName: string, key: string): Promise<boolean>;
+  getObjectInfo(
+    bucketName: string,
+    key: string
+  ): Promise<S3ObjectInfo | undefined>;
+  deleteObjects(bucketName: string, keys: string[]): Promise<void>;
+  putObject(
+    bucketName: string,
+    key: string,
+    body: Buffer,
+    metadata: Record<string, string>,
+    contentType: string
+  ): Promise<void>;
+  putObjectIfMatch(
+    bucketName: string,
+    key: string,
+    body: Buffer,
+    metadata: Record<string, string>,
+    etag?: string
+  ): Promise<string | undefined>;
+  deleteObjectIfMatch(
+    bucketName: string,
+    key: string,
+    etag: string
+  ): Promise<boolean>;
   uploadMockupImage(
     bucketName: string,
     key: string,
@@ -45,7 +105,7 @@ export interface S3Service {
 export class AWSS3Service implements S3Service {
   private readonly client: S3Client;
   private readonly config: Config;
-  private readonly supportedExtensions: Set<string>;
+  private readonly supportedFormats: Set<string>;
 
   constructor(config: Config) {
     this.config = config;
@@ -64,15 +124,103 @@ export class AWSS3Service implements S3Service {
     }
 
     this.client = new S3Client(clientConfig);
+    this.addRequestMetrics();
 
-    this.supportedExtensions = new Set(
-      config.conversion.supportedFormats.map(
-        (format) => format.toLowerCase().replace(/^\./, "") // Remove leading dot if present
-      )
+    this.supportedFormats = new Set(
+      config.conversion.supportedFormats.map(normalizeFormat)
+    );
+  }
+  /**
+   * Counts every request by operation and outcome, including the ones made
+   * by multipart uploads. SDK retries count as a single request.
+   */
+  private addRequestMetrics(): void {
+    this.client.middlewareStack.add(
+      (next, context) => async (args) => {
+        const operation = (context.commandName ?? "Unknown").replace(
+          /Command$/,
+          ""
+        );
+        try {
+          const result = await next(args);
+          metrics.recordS3Request(operation, "success");
+          return result;
+        } catch (error) {
+          const statusCode =
+            error instanceof S3ServiceException
+              ? error.$metadata.httpStatusCode
+              : undefined;
+          metrics.recordS3Request(
+            operation,
+            statusCode !== undefined && statusCode < 500
+              ? "client_error"
+              : "server_error"
+          );
+          throw error;
+        }
+      },
+      { step: "initialize", name: "requestMetrics" }
     );
   }
   async listImages(bucketName: string, prefix?: string): Promise<S3Object[]> {
     const images: S3Object[] = [];
+    for await (const candidates of this.listObjectPages(bucketName, prefix)) {
+      images.push(...(await this.filterImages(bucketName, candidates)));
+    }
+    return images;
+  }
+
+  /**
+   * Lists every object under the prefix, without the image format filter
+   */
+  async listObjects(bucketName: string, prefix?: string): Promise<S3Object[]> {
+    const objects: S3Object[] = [];
+    for await (const page of this.listObjectPages(bucketName, prefix)) {
+      objects.push(...page);
+    }
+    return objects;
+  }
+
+  /**
+   * Lists at most one object, to check list access without paging a bucket
+   */
+  async listFirstObject(
+    bucketName: string,
+    prefix?: string
+  ): Promise<S3Object | undefined> {
+    try {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: bucketName,
+          Prefix: prefix,
+          MaxKeys: 1,
+        })
+      );
+      const object = response.Contents?.[0];
+      if (!object?.Key) {
+        return undefined;
+      }
+      return {
+        key: object.Key,
+        size: object.Size ?? 0,
+        lastModified: object.LastModified ?? new Date(0),
+        etag: (object.ETag ?? "").replace(/"/g, ""),
+      };
+    } catch (error) {
+      if (error instanceof S3ServiceException) {
+        throw new S3OperationError(
+          `Failed to list objects from bucket ${bucketName}: ${error.message}`,
+          error
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async *listObjectPages(
+    bucketName: string,
+    prefix?: string
+  ): AsyncGenerator<S3Object[]> {
     let continuationToken: string | undefined;
     const startTime = Date.now();
     do {
@@ -86,7 +234,9 @@ export class AWSS3Service implements S3Service {
         const response: ListObjectsV2CommandOutput = await this.client.send(
           command
         );
+        continuationToken = response.NextContinuationToken;
         if (response.Contents) {
+          const candidates: S3Object[] = [];
           for (const object of response.Contents) {
             if (
               object.Key &&
@@ -94,46 +244,43 @@ export class AWSS3Service implements S3Service {
               object.LastModified &&
               object.ETag
             ) {
-              // Check if the file has a supported image extension
-              if (this.isImageFile(object.Key)) {
-                images.push({
-                  key: object.Key,
-                  size: object.Size,
-                  lastModified: object.LastModified,
-                  etag: object.ETag.replace(/"/g, ""), // Remove quotes from ETag
-                });
-              }
+              candidates.push({
+                key: object.Key,
+                size: object.Size,
+                lastModified: object.LastModified,
+                etag: object.ETag.replace(/"/g, ""), // Remove quotes from ETag
+              });
             }
           }
+          yield candidates;
         }
-        continuationToken = response.NextContinuationToken;
       } catch (error) {
         const duration = Date.now() - startTime;
 
         if (error instanceof S3ServiceException) {
-          throw new Error(
-            `Failed to list images from bucket ${bucketName}: ${error.message}, duration: ${duration}`
+          throw new S3OperationError(
+            `Failed to list objects from bucket ${bucketName}: ${error.message}, duration: ${duration}`,
+            error
           );
         }
         throw error;
       }
     } while (continuationToken);
-
-    return images;
   }
 
   async uploadImage(
     bucketName: string,
     key: string,
     buffer: Buffer,
-    metadata: Record<string, string>
+    metadata: Record<string, string>,
+    contentType: string = "image/webp"
   ): Promise<void> {
     try {
       const command = new PutObjectCommand({
         Bucket: bucketName,
         Key: key,
         Body: buffer,
-        ContentType: "image/webp",
+        ContentType: contentType,
         Metadata: metadata,
         // Add cache control for web optimization
         CacheControl: this.config.aws.cacheControl || "public, max-age=31536000", // 1 year
@@ -142,8 +289,9 @@ export class AWSS3Service implements S3Service {
       await this.client.send(command);
     } catch (error) {
       if (error instanceof S3ServiceException) {
-        throw new Error(
-          `Failed to upload image ${key} to bucket ${bucketName}: ${error.message}`
+        throw new S3OperationError(
+          `Failed to upload image ${key} to bucket ${bucketName}: ${error.message}`,
+          error
         );
       }
       throw error;
@@ -177,23 +325,370 @@ export class AWSS3Service implements S3Service {
       return buffer;
     } catch (error) {
       if (error instanceof S3ServiceException) {
+        throw new S3OperationError(
+          `Failed to download image ${key} from bucket ${bucketName}: ${error.message}`,
+          error
+        );
+      }
+      throw error;
+    }
+  }
+
+  async downloadImageStream(
+    bucketName: string,
+    key: string
+  ): Promise<Readable> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: bucketName,
+        Key: key,
+      });
+
+      const response: GetObjectCommandOutput = await this.client.send(command);
+
+      if (!response.Body) {
         throw new Error(
-          `Failed to download image ${key} from bucket ${bucketName}: ${error.message}`
+          `No body returned for object ${key} in bucket ${bucketName}`
+        );
+      }
+
+      return response.Body as Readable;
+    } catch (error) {
+      if (error instanceof S3ServiceException) {
+        throw new S3OperationError(
+          `Failed to download image ${key} from bucket ${bucketName}: ${error.message}`,
+          error
+        );
+      }
+      throw error;
+    }
+  }
+
+  async uploadImageStream(
+    bucketName: string,
+    key: string,
+    body: Readable,
+    metadata: Record<string, string>,
+    contentType: string = "image/webp"
+  ): Promise<void> {
+    try {
+      // Multipart upload so the converted image never has to be buffered whole
+      const upload = new Upload({
+        client: this.client,
+        params: {
+          Bucket: bucketName,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+          Metadata: metadata,
+          CacheControl:
+            this.config.aws.cacheControl || "public, max-age=31536000", // 1 year
+        },
+        queueSize: 4,
+        partSize: 8 * 1024 * 1024,
+      });
+
+      await upload.done();
+    } catch (error) {
+      if (error instanceof S3ServiceException) {
+        throw new S3OperationError(
+          `Failed to upload image ${key} to bucket ${bucketName}: ${error.message}`,
+          error
         );
       }
       throw error;
     }
   }
 
+  async objectExists(bucketName: string, key: string): Promise<boolean> {
+    return (await this.getObjectInfo(bucketName, key)) !== undefined;
+  }
+
+  /**
+   * Returns size, ETag, last modified date and user metadata of an object,
+   * or undefined when it does not exist
+   */
+  async getObjectInfo(
+    bucketName: string,
+    key: string
+  ): Promise<S3ObjectInfo | undefined> {
+    try {
+      const command = new HeadObjectCommand({
+        Bucket: bucketName,
+        Key: key,
+      });
+      const response = await this.client.send(command);
+      return {
+        key,
+        size: response.ContentLength ?? 0,
+        lastModified: response.LastModified ?? new Date(0),
+        etag: (response.ETag ?? "").replace(/"/g, ""),
+        metadata: response.Metadata ?? {},
+        contentType: response.ContentType,
+      };
+    } catch (error) {
+      if (
+        error instanceof S3ServiceException &&
+        (error.name === "NotFound" || error.$metadata.httpStatusCode === 404)
+      ) {
+        return undefined;
+      }
+      if (error instanceof S3ServiceException) {
+        throw new S3OperationError(
+          `Failed to check object ${key} in bucket ${bucketName}: ${error.message}`,
+          error
+        );
+      }
+      throw error;
+    }
+  }
+
+  async deleteObjects(bucketName: string, keys: string[]): Promise<void> {
+    // DeleteObjects accepts at most 1000 keys per request
+    for (let i = 0; i < keys.length; i += 1000) {
+      const batch = keys.slice(i, i + 1000);
+      try {
+        const response = await this.client.send(
+          new DeleteObjectsCommand({
+            Bucket: bucketName,
+            Delete: {
+              Objects: batch.map((key) => ({ Key: key })),
+              Quiet: true,
+            },
+          })
+        );
+        const failed = response.Errors ?? [];
+        if (failed.length > 0) {
+          const failedKeys = failed
+            .map((e) => `${e.Key} (${e.Code})`)
+            .join(", ");
+          throw new S3OperationError(
+            `Failed to delete objects from bucket ${bucketName}: ${failedKeys}`
+          );
+        }
+      } catch (error) {
+        if (error instanceof S3ServiceException) {
+          throw new S3OperationError(
+            `Failed to delete objects from bucket ${bucketName}: ${error.message}`,
+            error
+          );
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Writes a bookkeeping object (manifest shard, probe). Unlike images these
+   * change or go away, so they are never cached.
+   */
+  async putObject(
+    bucketName: string,
+    key: string,
+    body: Buffer,
+    metadata: Record<string, string>,
+    contentType: string
+  ): Promise<void> {
+    try {
+      await this.client.send(
+        new PutObjectCommand({
+          Bucket: bucketName,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+          Metadata: metadata,
+          CacheControl: "no-cache",
+        })
+      );
+    } catch (error) {
+      if (error instanceof S3ServiceException) {
+        throw new S3OperationError(
+          `Failed to write object ${key} to bucket ${bucketName}: ${error.message}`,
+          error
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Conditional write: without an ETag the object is only created when it
+   * does not exist yet, with one it is only replaced while it still has that
+   * ETag. Returns the new ETag, or undefined when the condition failed.
+   */
+  async putObjectIfMatch(
+    bucketName: string,
+    key: string,
+    body: Buffer,
+    metadata: Record<string, string>,
+    etag?: string
+  ): Promise<string | undefined> {
+    try {
+      const response = await this.client.send(
+        new PutObjectCommand({
+          Bucket: bucketName,
+          Key: key,
+          Body: body,
+          ContentType: "application/json",
+          Metadata: metadata,
+          ...(etag ? { IfMatch: `"${etag}"` } : { IfNoneMatch: "*" }),
+        })
+      );
+      return (response.ETag ?? "").replace(/"/g, "");
+    } catch (error) {
+      if (this.isConditionFailure(error)) {
+        return undefined;
+      }
+      if (error instanceof S3ServiceException) {
+        throw new S3OperationError(
+          `Failed to write object ${key} to bucket ${bucketName}: ${error.message}`,
+          error
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes the object only while it still has the given ETag. Returns false
+   * when it was changed or removed in the meantime.
+   */
+  async deleteObjectIfMatch(
+    bucketName: string,
+    key: string,
+    etag: string
+  ): Promise<boolean> {
+    try {
+      await this.client.send(
+        new DeleteObjectCommand({
+          Bucket: bucketName,
+          Key: key,
+          IfMatch: `"${etag}"`,
+        })
+      );
+      return true;
+    } catch (error) {
+      if (
+        this.isConditionFailure(error) ||
+        (error instanceof S3ServiceException &&
+          error.$metadata.httpStatusCode === 404)
+      ) {
+        return false;
+      }
+      if (error instanceof S3ServiceException) {
+        throw new S3OperationError(
+          `Failed to delete object ${key} from bucket ${bucketName}: ${error.message}`,
+          error
+        );
+      }
+      throw error;
+    }
+  }
+
+  // 412 when the condition does not hold, 409 when a concurrent write won
+  private isConditionFailure(error: unknown): boolean {
+    return (
+      error instanceof S3ServiceException &&
+      (error.$metadata.httpStatusCode === 412 ||
+        error.$metadata.httpStatusCode === 409)
+    );
+  }
+
   private isImageFile(key: string): boolean {
-    const extension = key.split(".").pop()?.toLowerCase();
-    return extension ? this.supportedExtensions.has(extension) : false;
+    const format = formatFromKey(key);
+    return format ? this.supportedFormats.has(format) : false;
+  }
+
+  /**
+   * Keeps objects with a supported extension. With content sniffing enabled,
+   * keys without a recognised image extension are checked by Content-Type
+   * and, when that is missing or generic, by their leading magic bytes.
+   */
+  private async filterImages(
+    bucketName: string,
+    candidates: S3Object[]
+  ): Promise<S3Object[]> {
+    const images: S3Object[] = [];
+    const toSniff: S3Object[] = [];
+
+    for (const candidate of candidates) {
+      const extensionFormat = formatFromKey(candidate.key);
+      if (this.isImageFile(candidate.key)) {
+        images.push(candidate);
+      } else if (
+        this.config.conversion.contentSniffing &&
+        (!extensionFormat || !isKnownImageFormat(extensionFormat))
+      ) {
+        toSniff.push(candidate);
+      }
+    }
+
+    const batchSize = this.config.processing.concurrency;
+    for (let i = 0; i < toSniff.length; i += batchSize) {
+      const batch = toSniff.slice(i, i + batchSize);
+      const formats = await Promise.all(
+        batch.map((candidate) =>
+          this.sniffImageFormat(bucketName, candidate.key).catch((error) => {
+            logger.warn(`Failed to detect image type of ${candidate.key}`, {
+              operation: "s3.sniff",
+              sourceKey: candidate.key,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            return undefined;
+          })
+        )
+      );
+      batch.forEach((candidate, index) => {
+        const format = formats[index];
+        if (format && this.supportedFormats.has(format)) {
+          images.push(candidate);
+        }
+      });
+    }
+
+    return images;
+  }
+
+  async sniffImageFormat(
+    bucketName: string,
+    key: string
+  ): Promise<string | undefined> {
+    try {
+      const head = await this.client.send(
+        new HeadObjectCommand({ Bucket: bucketName, Key: key })
+      );
+      const contentTypeFormat = formatFromContentType(head.ContentType);
+      if (contentTypeFormat) {
+        return contentTypeFormat;
+      }
+
+      const response = await this.client.send(
+        new GetObjectCommand({
+          Bucket: bucketName,
+          Key: key,
+          Range: `bytes=0-${MAGIC_BYTES_LENGTH - 1}`,
+        })
+      );
+      if (!response.Body) {
+        return undefined;
+      }
+      const bytes = await response.Body.transformToByteArray();
+      return formatFromMagicBytes(Buffer.from(bytes));
+    } catch (error) {
+      if (error instanceof S3ServiceException) {
+        throw new S3OperationError(
+          `Failed to detect image type of ${key} in bucket ${bucketName}: ${error.message}`,
+          error
+        );
+      }
+      throw error;
+    }
   }
   async validateConnection(): Promise<boolean> {
     try {
       // Try to list buckets to validate connection and credentials
       const command = new ListObjectsV2Command({
-        Bucket: this.config.aws.targetBucket,
+        Bucket: this.config.aws.sourceBucket,
         MaxKeys: 1,
       });
 
@@ -222,8 +717,9 @@ export class AWSS3Service implements S3Service {
         if (error.name === "Forbidden" || error.name === "AccessDenied") {
           return false;
         }
-        throw new Error(
-          `Bucket permission check failed for ${bucketName}: ${error.message}`
+        throw new S3OperationError(
+          `Bucket permission check failed for ${bucketName}: ${error.message}`,
+          error
         );
       }
 
@@ -249,10 +745,13 @@ export class AWSS3Service implements S3Service {
       // Check basic connection
       details.connection = await this.validateConnection();
 
-      // Check source bucket permissions
+      // Check source and destination bucket permissions
       if (details.connection) {
+        details.sourceBucketAccess = await this.checkBucketPermissions(
+          this.config.aws.sourceBucket
+        );
         details.targetBucketAccess = await this.checkBucketPermissions(
-          this.config.aws.targetBucket
+          this.config.aws.destinationBucket
         );
       }
 
@@ -297,8 +796,9 @@ export class AWSS3Service implements S3Service {
       await this.client.send(command);
     } catch (error) {
       if (error instanceof S3ServiceException) {
-        throw new Error(
-          `Failed to upload mockup image ${key} to bucket ${bucketName}: ${error.message}`
+        throw new S3OperationError(
+          `Failed to upload mockup image ${key} to bucket ${bucketName}: ${error.message}`,
+          error
         );
       }
       throw error;
@@ -0,0 +1,418 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import logger from "../utils/logger";
+import { EncodingMode } from "../models";
+import {
+  ConversionRecord,
+  ConversionRecordOutput,
+  ConversionTracker,
+  createRecordFilter,
+  FailureRecord,
+  RecordQuery,
+  TrackedConversion,
+} from "./conversionTracker";
+
+// Records are buffered and written in a single transaction per batch
+const BATCH_SIZE = 100;
+// Longest a record waits for its batch, so single conversions are persisted
+const FLUSH_INTERVAL_MS = 5000;
+
+interface ConversionRow {
+  source_key: string;
+  target_key: string;
+  converted_at: string;
+  original_size: number;
+  converted_size: number;
+  compression_ratio: number;
+  source_etag: string | null;
+  source_last_modified: string | null;
+  encoding_mode: string | null;
+  quality: number | null;
+  similarity: number | null;
+  outputs: string | null;
+}
+
+interface FailureRow {
+  source_key: string;
+  error_type: string;
+  message: string;
+  attempts: number;
+  failed_at: string;
+  source_etag: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS conversions (
+    source_key TEXT PRIMARY KEY,
+    target_key TEXT NOT NULL,
+    converted_at TEXT NOT NULL,
+    original_size INTEGER NOT NULL,
+    converted_size INTEGER NOT NULL,
+    compression_ratio REAL NOT NULL,
+    source_etag TEXT,
+    source_last_modified TEXT,
+    encoding_mode TEXT,
+    quality REAL,
+    similarity REAL,
+    outputs TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_conversions_converted_at
+    ON conversions (converted_at);
+  CREATE TABLE IF NOT EXISTS failures (
+    source_key TEXT PRIMARY KEY,
+    error_type TEXT NOT NULL,
+    message TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    failed_at TEXT NOT NULL,
+    source_etag TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_failures_error_type
+    ON failures (error_type);
+`;
+
+/**
+ * Conversion tracker backed by a SQLite database. Lookups go through the
+ * source key primary index instead of holding every key in memory.
+ */
+export class SqliteConversionTracker implements ConversionTracker {
+  private readonly databasePath: string;
+  private database: Database.Database | null = null;
+  private pendingRecords: Map<string, ConversionRecord> = new Map();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(databasePath: string = "logs/converted-images.db") {
+    this.databasePath = databasePath;
+  }
+
+  async loadConvertedKeys(onProgress?: (msg: string) => void): Promise<void> {
+    if (this.database) return;
+
+    fs.mkdirSync(path.dirname(this.databasePath), { recursive: true });
+    const database = new Database(this.databasePath);
+    database.pragma("journal_mode = WAL");
+    database.pragma("synchronous = NORMAL");
+    database.exec(SCHEMA);
+    this.database = database;
+
+    const { count } = database
+      .prepare("SELECT COUNT(*) AS count FROM conversions")
+      .get() as { count: number };
+    onProgress?.(`Tracking database contains ${count} converted images`);
+    logger.info(`Tracking database contains ${count} converted images`, {
+      operation: "tracker.load",
+      databasePath: this.databasePath,
+      convertedCount: count,
+    });
+  }
+
+  async isConverted(sourceKey: string): Promise<boolean> {
+    return (await this.getConversionState(sourceKey)) !== undefined;
+  }
+
+  async getConversionState(
+    sourceKey: string
+  ): Promise<TrackedConversion | undefined> {
+    const pending = this.pendingRecords.get(sourceKey);
+    if (pending) {
+      return this.toTrackedConversion(pending);
+    }
+
+    const row = (await this.getDatabase())
+      .prepare("SELECT * FROM conversions WHERE source_key = ?")
+      .get(sourceKey) as ConversionRow | undefined;
+    return row ? this.toTrackedConversion(this.fromRow(row)) : undefined;
+  }
+
+  async markAsConverted(record: ConversionRecord): Promise<void> {
+    await this.getDatabase();
+    this.pendingRecords.set(record.sourceKey, record);
+
+    if (this.pendingRecords.size >= BATCH_SIZE) {
+      await this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+
+    logger.info(
+      `Image converted and tracked: ${record.sourceKey} -> ${record.targetKey}`,
+      {
+        operation: "conversion.tracked",
+        sourceKey: record.sourceKey,
+        targetKey: record.targetKey,
+        originalSize: record.originalSize,
+        convertedSize: record.convertedSize,
+        compressionRatio: record.compressionRatio,
+        sizeSavedBytes: record.originalSize - record.convertedSize,
+        convertedAt: record.convertedAt,
+      }
+    );
+  }
+
+  async markAsFailed(failure: FailureRecord): Promise<void> {
+    (await this.getDatabase())
+      .prepare(
+        `INSERT OR REPLACE INTO failures (
+          source_key, error_type, message, attempts, failed_at, source_etag
+        ) VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        failure.sourceKey,
+        failure.errorType,
+        failure.message,
+        failure.attempts,
+        failure.failedAt,
+        failure.sourceEtag ?? null
+      );
+  }
+
+  async getFailures(errorType?: string): Promise<FailureRecord[]> {
+    // Pending conversions clear their failures once written
+    await this.flush();
+    const database = await this.getDatabase();
+
+    const rows = (
+      errorType
+        ? database
+            .prepare(
+              "SELECT * FROM failures WHERE error_type = ? ORDER BY failed_at"
+            )
+            .all(errorType)
+        : database.prepare("SELECT * FROM failures ORDER BY failed_at").all()
+    ) as FailureRow[];
+    return rows.map((row) => {
+      const failure: FailureRecord = {
+        sourceKey: row.source_key,
+        errorType: row.error_type,
+        message: row.message,
+        attempts: row.attempts,
+        failedAt: row.failed_at,
+      };
+      if (row.source_etag !== null) failure.sourceEtag = row.source_etag;
+      return failure;
+    });
+  }
+
+  async getConvertedKeys(): Promise<Set<string>> {
+    const keys = new Set<string>();
+    const rows = (await this.getDatabase())
+      .prepare("SELECT source_key FROM conversions")
+      .pluck()
+      .iterate() as IterableIterator<string>;
+    for (const key of rows) {
+      keys.add(key);
+    }
+    this.pendingRecords.forEach((_record, key) => keys.add(key));
+    return keys;
+  }
+
+  async getRecords(query: RecordQuery = {}): Promise<ConversionRecord[]> {
+    await this.flush();
+    const database = await this.getDatabase();
+
+    // Prefix and date ranges use the source key and converted_at indexes
+    const conditions: string[] = [];
+    const parameters: string[] = [];
+    if (query.prefix) {
+      conditions.push("source_key >= ? AND source_key < ?");
+      parameters.push(query.prefix, this.getPrefixUpperBound(query.prefix));
+    }
+    if (query.since) {
+      conditions.push("converted_at >= ?");
+      parameters.push(query.since.toISOString());
+    }
+    if (query.until) {
+      conditions.push("converted_at <= ?");
+      parameters.push(query.until.toISOString());
+    }
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const rows = database
+      .prepare(`SELECT * FROM conversions ${where} ORDER BY source_key`)
+      .all(...parameters) as ConversionRow[];
+    const records = rows.map((row) => this.fromRow(row));
+    // Globs are matched in JavaScript, SQLite's GLOB lets `*` cross folders
+    return query.pattern ? records.filter(createRecordFilter(query)) : records;
+  }
+
+  async removeRecords(query: RecordQuery): Promise<number> {
+    const keys = (await this.getRecords(query)).map(
+      (record) => record.sourceKey
+    );
+    const database = await this.getDatabase();
+    const remove = database.prepare(
+      "DELETE FROM conversions WHERE source_key = ?"
+    );
+    database.transaction((batch: string[]) => {
+      batch.forEach((key) => remove.run(key));
+    })(keys);
+
+    logger.info(`Removed ${keys.length} records from tracking database`, {
+      operation: "tracker.remove",
+      removedCount: keys.length,
+    });
+    return keys.length;
+  }
+
+  /**
+   * Writes records in a single transaction, replacing existing entries for
+   * the same source key and clearing their failures. Also used by the JSON
+   * tracker migration.
+   */
+  async importRecords(records: ConversionRecord[]): Promise<number> {
+    const database = await this.getDatabase();
+    const upsert = database.prepare(
+      `INSERT OR REPLACE INTO conversions (
+        source_key, target_key, converted_at, original_size, converted_size,
+        compression_ratio, source_etag, source_last_modified, encoding_mode,
+        quality, similarity, outputs
+      ) VALUES (
+        @source_key, @target_key, @converted_at, @original_size, @converted_size,
+        @compression_ratio, @source_etag, @source_last_modified, @encoding_mode,
+        @quality, @similarity, @outputs
+      )`
+    );
+    // Buffered records may be written after a newer failure of the same
+    // key, which must stay; ISO timestamps compare in time order
+    const clearFailure = database.prepare(
+      "DELETE FROM failures WHERE source_key = ? AND failed_at <= ?"
+    );
+    const insertAll = database.transaction((batch: ConversionRecord[]) => {
+      batch.forEach((record) => {
+        upsert.run(this.toRow(record));
+        clearFailure.run(record.sourceKey, record.convertedAt);
+      });
+    });
+    insertAll(records);
+    return records.length;
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pendingRecords.size === 0) return;
+
+    const records = [...this.pendingRecords.values()];
+    this.pendingRecords = new Map();
+    try {
+      await this.importRecords(records);
+      logger.info(
+        `Batch updated tracking database with ${records.length} records`,
+        {
+          operation: "tracker.batchWrite",
+          recordCount: records.length,
+        }
+      );
+    } catch (error) {
+      // Keep the records for the next flush unless newer ones replaced them
+      records.forEach((record) => {
+        if (!this.pendingRecords.has(record.sourceKey)) {
+          this.pendingRecords.set(record.sourceKey, record);
+        }
+      });
+      logger.error("Failed to batch update tracking database", {
+        operation: "tracker.batchWriteError",
+        error: error instanceof Error ? error.message : String(error),
+        recordCount: records.length,
+      });
+      throw error;
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      // flush() logs the error and keeps the records for the next attempt
+      this.flush().catch(() => this.scheduleFlush());
+    }, FLUSH_INTERVAL_MS);
+    // Shutdown flushes what is left, the timer must not keep the process alive
+    this.flushTimer.unref();
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+    this.database?.close();
+    this.database = null;
+  }
+
+  async checkWritable(): Promise<void> {
+    const database = await this.getDatabase();
+    // SQLite silently falls back to read-only when the file is not writable
+    if (database.readonly) {
+      throw new Error(`Tracking database is read-only: ${this.databasePath}`);
+    }
+    // Taking the write lock fails while another process holds it too long
+    database.exec("BEGIN IMMEDIATE");
+    database.exec("ROLLBACK");
+  }
+
+  private async getDatabase(): Promise<Database.Database> {
+    await this.loadConvertedKeys();
+    return this.database!;
+  }
+
+  // Smallest string sorting after every key that starts with the prefix
+  private getPrefixUpperBound(prefix: string): string {
+    const lastIndex = prefix.length - 1;
+    return (
+      prefix.substring(0, lastIndex) +
+      String.fromCharCode(prefix.charCodeAt(lastIndex) + 1)
+    );
+  }
+
+  private toTrackedConversion(record: ConversionRecord): TrackedConversion {
+    return {
+      targetKeys: record.outputs?.map((output) => output.targetKey) ?? [
+        record.targetKey,
+      ],
+      sourceEtag: record.sourceEtag,
+      sourceLastModified: record.sourceLastModified,
+    };
+  }
+
+  private toRow(record: ConversionRecord): ConversionRow {
+    return {
+      source_key: record.sourceKey,
+      target_key: record.targetKey,
+      converted_at: record.convertedAt,
+      original_size: record.originalSize,
+      converted_size: record.convertedSize,
+      compression_ratio: record.compressionRatio,
+      source_etag: record.sourceEtag ?? null,
+      source_last_modified: record.sourceLastModified ?? null,
+      encoding_mode: record.encodingMode ?? null,
+      quality: record.quality ?? null,
+      similarity: record.similarity ?? null,
+      outputs: record.outputs ? JSON.stringify(record.outputs) : null,
+    };
+  }
+
+  private fromRow(row: ConversionRow): ConversionRecord {
+    const record: ConversionRecord = {
+      sourceKey: row.source_key,
+      targetKey: row.target_key,
+      convertedAt: row.converted_at,
+      originalSize: row.original_size,
+      convertedSize: row.converted_size,
+      compressionRatio: row.compression_ratio,
+    };
+    if (row.source_etag !== null) record.sourceEtag = row.source_etag;
+    if (row.source_last_modified !== null) {
+      record.sourceLastModified = row.source_last_modified;
+    }
+    if (row.encoding_mode !== null) {
+      record.encodingMode = row.encoding_mode as EncodingMode;
+    }
+    if (row.quality !== null) record.quality = row.quality;
+    if (row.similarity !== null) record.similarity = row.similarity;
+    if (row.outputs !== null) {
+      record.outputs = JSON.parse(row.outputs) as ConversionRecordOutput[];
+    }
+    return record;
+  }
+}
@@ -0,0 +1,29 @@
+import { Config } from "../config";
+import {
+  ConversionTracker,
+  FileBasedConversionTracker,
+} from "./conversionTracker";
+import { S3ManifestConversionTracker } from "./s3ConversionTracker";
+import { AWSS3Service, S3Service } from "./s3Service";
+import { SqliteConversionTracker } from "./sqliteConversionTracker";
+
+/**
+ * Creates the conversion tracker for the configured backend
+ */
+export function createConversionTracker(
+  config: Config,
+  s3Service?: S3Service
+): ConversionTracker {
+  switch (config.tracking.backend) {
+    case "s3":
+      return new S3ManifestConversionTracker(
+        s3Service ?? new AWSS3Service(config),
+        config.tracking.s3.bucket,
+        config.tracking.s3.prefix
+      );
+    case "sqlite":
+      return new SqliteConversionTracker(config.tracking.sqlitePath);
+    case "file":
+      return new FileBasedConversionTracker(config.tracking.filePath);
+  }
+}
@@ -0,0 +1,144 @@
+import { Config } from "../config";
+import { ConversionResult, ImageMetadata } from "../models";
+import {
+  ImageTooLargeError,
+  InvalidImageRequestError,
+  UnsupportedFormatError,
+} from "../utils/error";
+import { formatFromKey } from "../utils/imageFormat";
+import logger from "../utils/logger";
+import { ConversionService } from "./convertionService";
+import { ImageProcessor } from "./imageProcess";
+import { S3Service } from "./s3Service";
+
+export interface ConvertedUpload {
+  buffer: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+  originalFormat: string;
+}
+
+/**
+ * Converts images pushed over HTTP. Uploads are either converted in memory
+ * and returned, or stored as a source object and run through the regular
+ * conversion pipeline, so tracking and output naming match batch runs.
+ */
+export class UploadConversionService {
+  private readonly config: Config;
+  private readonly s3Service: S3Service;
+  private readonly imageProcessor: ImageProcessor;
+  private readonly conversionService: ConversionService;
+
+  constructor(
+    config: Config,
+    s3Service: S3Service,
+    imageProcessor: ImageProcessor,
+    conversionService: ConversionService
+  ) {
+    this.config = config;
+    this.s3Service = s3Service;
+    this.imageProcessor = imageProcessor;
+    this.conversionService = conversionService;
+  }
+
+  /**
+   * Converts the upload to WebP without storing anything
+   */
+  async convert(buffer: Buffer): Promise<ConvertedUpload> {
+    const metadata = await this.validateUpload(buffer);
+    const { quality, encodingMode, targetQuality } = this.config.conversion;
+
+    const converted = await this.imageProcessor.convertToFormat(
+      buffer,
+      "webp",
+      {
+        quality,
+        encodingMode:
+          encodingMode === "auto"
+            ? await this.imageProcessor.selectEncodingMode(buffer)
+            : encodingMode,
+        targetQuality: targetQuality.ssim > 0 ? targetQuality : undefined,
+      }
+    );
+    return {
+      buffer: converted.buffer,
+      contentType: this.imageProcessor.getOutputContentType("webp"),
+      width: converted.width,
+      height: converted.height,
+      originalFormat: metadata.originalFormat,
+    };
+  }
+
+  /**
+   * Uploads the original under `key` (relative to the source prefix) and
+   * converts it like any other source object
+   */
+  async convertAndStore(
+    buffer: Buffer,
+    key: string
+  ): Promise<ConversionResult> {
+    const sourceKey = this.getSourceKey(key);
+    const metadata = await this.validateUpload(buffer);
+    const { sourceBucket } = this.config.aws;
+
+    await this.s3Service.uploadImage(
+      sourceBucket,
+      sourceKey,
+      buffer,
+      {
+        "original-format": metadata.originalFormat,
+        "upload-timestamp": new Date().toISOString(),
+      },
+      metadata.contentType
+    );
+    logger.info(`Stored uploaded image: ${sourceKey}`, {
+      operation: "upload.store",
+      sourceKey,
+      size: buffer.length,
+    });
+
+    // The ETag is needed to track the source like a listed object
+    const source = await this.s3Service.getObjectInfo(sourceBucket, sourceKey);
+    if (!source) {
+      throw new Error(`Uploaded image is missing from bucket: ${sourceKey}`);
+    }
+    return this.conversionService.processSingleImage(source);
+  }
+
+  private async validateUpload(buffer: Buffer): Promise<ImageMetadata> {
+    if (buffer.length === 0) {
+      throw new InvalidImageRequestError("Request body is empty");
+    }
+    const { maxFileSize } = this.config.conversion;
+    if (buffer.length > maxFileSize) {
+      throw new ImageTooLargeError("upload", buffer.length, maxFileSize);
+    }
+
+    await this.imageProcessor.validateFileIntegrity(buffer);
+    const metadata = await this.imageProcessor.getImageMetadata(buffer);
+    if (!this.imageProcessor.isFormatSupported(metadata.originalFormat)) {
+      throw new UnsupportedFormatError(metadata.originalFormat);
+    }
+    return metadata;
+  }
+
+  private getSourceKey(key: string): string {
+    const relativeKey = key.replace(/^\/+/, "");
+    if (
+      !relativeKey ||
+      relativeKey.endsWith("/") ||
+      relativeKey.split("/").some((segment) => segment === "..")
+    ) {
+      throw new InvalidImageRequestError("store must be a valid object key");
+    }
+
+    const format = formatFromKey(relativeKey);
+    if (!format || !this.imageProcessor.isFormatSupported(format)) {
+      throw new InvalidImageRequestError(
+        "store key must end in a supported image extension"
+      );
+    }
+    return `${this.config.aws.sourcePrefix}${relativeKey}`;
+  }
+}
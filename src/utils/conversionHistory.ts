@@ -0,0 +1,157 @@
+import { ConversionRecord } from "../services/conversionTracker";
+
+export interface GroupStats {
+  key: string;
+  images: number;
+  originalSize: number;
+  convertedSize: number;
+  bytesSaved: number;
+}
+
+export interface HistoryStats {
+  totals: GroupStats;
+  byPrefix: GroupStats[];
+  byDay: GroupStats[];
+  /** Compression ratio percentiles (0.25 = 25% smaller than the source) */
+  compressionPercentiles: Record<string, number>;
+}
+
+const PERCENTILES = [10, 25, 50, 75, 90, 99];
+
+/**
+ * Aggregates records per top-level folder below `prefix`, per conversion
+ * day (UTC) and over the whole selection
+ */
+export function computeHistoryStats(
+  records: ConversionRecord[],
+  prefix: string = ""
+): HistoryStats {
+  const totals = createGroup("total");
+  const byPrefix = new Map<string, GroupStats>();
+  const byDay = new Map<string, GroupStats>();
+
+  for (const record of records) {
+    const prefixKey = getPrefixGroup(record.sourceKey, prefix);
+    const dayKey = record.convertedAt.substring(0, 10);
+    for (const group of [
+      totals,
+      getGroup(byPrefix, prefixKey),
+      getGroup(byDay, dayKey),
+    ]) {
+      group.images++;
+      group.originalSize += record.originalSize;
+      group.convertedSize += record.convertedSize;
+      group.bytesSaved += record.originalSize - record.convertedSize;
+    }
+  }
+
+  const ratios = records
+    .map((record) => record.compressionRatio)
+    .sort((a, b) => a - b);
+  const compressionPercentiles: Record<string, number> = {};
+  if (ratios.length > 0) {
+    for (const percentile of PERCENTILES) {
+      // Nearest-rank percentile
+      const index = Math.ceil((percentile / 100) * ratios.length) - 1;
+      compressionPercentiles[`p${percentile}`] = ratios[Math.max(0, index)]!;
+    }
+  }
+
+  return {
+    totals,
+    byPrefix: [...byPrefix.values()].sort(
+      (a, b) => b.bytesSaved - a.bytesSaved
+    ),
+    byDay: [...byDay.values()].sort((a, b) => a.key.localeCompare(b.key)),
+    compressionPercentiles,
+  };
+}
+
+export function recordsToCsv(records: ConversionRecord[]): string {
+  const header = [
+    "sourceKey",
+    "targetKey",
+    "convertedAt",
+    "originalSize",
+    "convertedSize",
+    "compressionRatio",
+    "encodingMode",
+    "quality",
+    "outputCount",
+  ];
+  const rows = records.map((record) => [
+    record.sourceKey,
+    record.targetKey,
+    record.convertedAt,
+    record.originalSize,
+    record.convertedSize,
+    record.compressionRatio,
+    record.encodingMode ?? "",
+    record.quality ?? "",
+    record.outputs?.length ?? 1,
+  ]);
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * Per-prefix and per-day groups as CSV rows; percentiles are only part of
+ * the table and JSON views
+ */
+export function statsToCsv(stats: HistoryStats): string {
+  const header = [
+    "group",
+    "key",
+    "images",
+    "originalSize",
+    "convertedSize",
+    "bytesSaved",
+  ];
+  const toRow = (label: string, group: GroupStats) => [
+    label,
+    group.key,
+    group.images,
+    group.originalSize,
+    group.convertedSize,
+    group.bytesSaved,
+  ];
+  return toCsv([
+    header,
+    ...stats.byPrefix.map((group) => toRow("prefix", group)),
+    ...stats.byDay.map((group) => toRow("day", group)),
+    toRow("total", stats.totals),
+  ]);
+}
+
+function toCsv(rows: (string | number)[][]): string {
+  return (
+    rows
+      .map((row) => row.map((value) => escapeCsvValue(String(value))).join(","))
+      .join("\n") + "\n"
+  );
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function getPrefixGroup(sourceKey: string, prefix: string): string {
+  const relativeKey = sourceKey.substring(prefix.length);
+  const slashIndex = relativeKey.indexOf("/");
+  if (slashIndex < 0) {
+    return prefix || "/";
+  }
+  return prefix + relativeKey.substring(0, slashIndex + 1);
+}
+
+function getGroup(groups: Map<string, GroupStats>, key: string): GroupStats {
+  let group = groups.get(key);
+  if (!group) {
+    group = createGroup(key);
+    groups.set(key, group);
+  }
+  return group;
+}
+
+function createGroup(key: string): GroupStats {
+  return { key, images: 0, originalSize: 0, convertedSize: 0, bytesSaved: 0 };
+}
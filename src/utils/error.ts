@@ -27,3 +27,89 @@ export class ConversionError extends ImageProcessingError {
     this.name = "ConversionError";
   }
 }
+
+/**
+ * Reading a source stream failed partway, so everything encoded from it is
+ * incomplete. Downloading the source again may succeed.
+ */
+export class SourceStreamError extends Error {
+  constructor(public readonly cause: Error) {
+    super(`Source stream failed: ${cause.message}`);
+    this.name = "SourceStreamError";
+  }
+}
+
+export class S3OperationError extends Error {
+  public readonly code: string | undefined;
+  public readonly statusCode: number | undefined;
+
+  constructor(
+    message: string,
+    public readonly cause?: Error & {
+      $metadata?: { httpStatusCode?: number | undefined };
+    }
+  ) {
+    super(message);
+    this.name = "S3OperationError";
+    this.code = cause?.name;
+    this.statusCode = cause?.$metadata?.httpStatusCode;
+  }
+}
+
+export class InvalidJobRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidJobRequestError";
+  }
+}
+
+export class JobConflictError extends Error {
+  constructor(public readonly conflictingJobId: string, prefix: string) {
+    super(
+      `Conversion job ${conflictingJobId} is already running for a prefix overlapping "${prefix}"`
+    );
+    this.name = "JobConflictError";
+  }
+}
+
+export class InvalidImageRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidImageRequestError";
+  }
+}
+
+export class ImageNotFoundError extends Error {
+  constructor(public readonly key: string) {
+    super(`Image not found: ${key}`);
+    this.name = "ImageNotFoundError";
+  }
+}
+
+export class ImageTooLargeError extends Error {
+  constructor(key: string, size: number, maxSize: number) {
+    super(`Image ${key} is ${size} bytes, above the limit of ${maxSize} bytes`);
+    this.name = "ImageTooLargeError";
+  }
+}
+
+export class InvalidEventError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidEventError";
+  }
+}
+
+export class EventQueueFullError extends Error {
+  constructor(limit: number) {
+    super(`Event queue is full (${limit} objects pending)`);
+    this.name = "EventQueueFullError";
+  }
+}
+
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthenticationError";
+  }
+}
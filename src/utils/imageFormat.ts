@@ -0,0 +1,93 @@
+/**
+ * Maps extensions and alternative names to the format name sharp reports
+ */
+const FORMAT_ALIASES: Record<string, string> = {
+  jpg: "jpeg",
+  jpe: "jpeg",
+  jfif: "jpeg",
+  tif: "tiff",
+  heic: "heif",
+  avif: "heif",
+};
+
+const CONTENT_TYPE_FORMATS: Record<string, string> = {
+  "image/jpeg": "jpeg",
+  "image/jpg": "jpeg",
+  "image/pjpeg": "jpeg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/tiff": "tiff",
+  "image/avif": "heif",
+  "image/heic": "heif",
+  "image/heif": "heif",
+  "image/svg+xml": "svg",
+};
+
+/** Enough leading bytes to recognise every signature below */
+export const MAGIC_BYTES_LENGTH = 16;
+
+export function isKnownImageFormat(format: string): boolean {
+  return Object.values(CONTENT_TYPE_FORMATS).includes(normalizeFormat(format));
+}
+
+export function normalizeFormat(format: string): string {
+  const normalized = format.toLowerCase().replace(/^\./, "");
+  return FORMAT_ALIASES[normalized] ?? normalized;
+}
+
+/**
+ * Returns the normalized format for a key's extension, if it has one
+ */
+export function formatFromKey(key: string): string | undefined {
+  const fileName = key.substring(key.lastIndexOf("/") + 1);
+  const lastDotIndex = fileName.lastIndexOf(".");
+  if (lastDotIndex <= 0) {
+    return undefined;
+  }
+  return normalizeFormat(fileName.substring(lastDotIndex + 1));
+}
+
+export function formatFromContentType(
+  contentType: string | undefined
+): string | undefined {
+  if (!contentType) {
+    return undefined;
+  }
+  const mimeType = contentType.split(";")[0]!.trim().toLowerCase();
+  return CONTENT_TYPE_FORMATS[mimeType];
+}
+
+/**
+ * Detects the image format from the file signature
+ */
+export function formatFromMagicBytes(buffer: Buffer): string | undefined {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return buffer[2] === 0xff ? "jpeg" : undefined;
+  }
+  if (
+    buffer.length >= 8 &&
+    buffer
+      .subarray(0, 8)
+      .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  ) {
+    return "png";
+  }
+  const header = buffer.toString("latin1", 0, MAGIC_BYTES_LENGTH);
+  if (header.startsWith("GIF87a") || header.startsWith("GIF89a")) {
+    return "gif";
+  }
+  if (header.startsWith("RIFF") && header.substring(8, 12) === "WEBP") {
+    return "webp";
+  }
+  if (header.startsWith("II*\0") || header.startsWith("MM\0*")) {
+    return "tiff";
+  }
+  if (header.substring(4, 8) === "ftyp") {
+    const brand = header.substring(8, 12);
+    if (["avif", "avis", "heic", "heix", "mif1", "msf1"].includes(brand)) {
+      return "heif";
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,211 @@
+import { ConversionResult } from "../models";
+
+type Labels = Record<string, string>;
+
+export type S3RequestOutcome = "success" | "client_error" | "server_error";
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabelValue(labels[name]!)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge" | "histogram"
+  ) {}
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.renderSamples(),
+    ];
+  }
+
+  protected abstract renderSamples(): string[];
+}
+
+class Counter extends Metric {
+  private readonly values: Map<string, number> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  protected renderSamples(): string[] {
+    return [...this.values].map(
+      ([key, value]) => `${this.name}${key} ${value}`
+    );
+  }
+}
+
+class Gauge extends Metric {
+  private value = 0;
+
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(value: number): void {
+    this.value = value;
+  }
+
+  inc(value: number = 1): void {
+    this.value += value;
+  }
+
+  dec(value: number = 1): void {
+    this.value -= value;
+  }
+
+  protected renderSamples(): string[] {
+    return [`${this.name} ${this.value}`];
+  }
+}
+
+class Histogram extends Metric {
+  private readonly counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(name: string, help: string, private readonly buckets: number[]) {
+    super(name, help, "histogram");
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number): void {
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        this.counts[index]!++;
+      }
+    });
+    this.sum += value;
+    this.count++;
+  }
+
+  protected renderSamples(): string[] {
+    return [
+      ...this.buckets.map(
+        (bound, index) =>
+          `${this.name}_bucket{le="${bound}"} ${this.counts[index]}`
+      ),
+      `${this.name}_bucket{le="+Inf"} ${this.count}`,
+      `${this.name}_sum ${this.sum}`,
+      `${this.name}_count ${this.count}`,
+    ];
+  }
+}
+
+/**
+ * Process-wide conversion and S3 metrics, rendered in the Prometheus text
+ * exposition format
+ */
+export class ConversionMetrics {
+  private readonly conversions = new Counter(
+    "webp_converter_conversions_total",
+    "Images processed, by result status"
+  );
+  private readonly conversionErrors = new Counter(
+    "webp_converter_conversion_errors_total",
+    "Failed conversions, by error class"
+  );
+  private readonly processingTime = new Histogram(
+    "webp_converter_processing_seconds",
+    "Time to download, convert and upload one image",
+    [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+  );
+  private readonly compressionRatio = new Histogram(
+    "webp_converter_compression_ratio",
+    "Size reduction of converted images (0.25 = 25% smaller)",
+    [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1]
+  );
+  private readonly bytesBefore = new Counter(
+    "webp_converter_bytes_before_total",
+    "Source bytes of converted images"
+  );
+  private readonly bytesAfter = new Counter(
+    "webp_converter_bytes_after_total",
+    "Bytes of the primary output of converted images"
+  );
+  private readonly s3Requests = new Counter(
+    "webp_converter_s3_requests_total",
+    "S3 requests, by operation and outcome"
+  );
+  readonly queuePending = new Gauge(
+    "webp_converter_queue_pending",
+    "Images waiting to be processed"
+  );
+  readonly queueProcessing = new Gauge(
+    "webp_converter_queue_processing",
+    "Images being processed"
+  );
+  private readonly residentMemory = new Gauge(
+    "process_resident_memory_bytes",
+    "Resident memory size in bytes"
+  );
+  private readonly heapUsed = new Gauge(
+    "nodejs_heap_used_bytes",
+    "V8 heap used in bytes"
+  );
+
+  recordConversion(result: ConversionResult): void {
+    this.conversions.inc({ status: result.status });
+    this.processingTime.observe(result.processingTime / 1000);
+
+    if (result.status === "failed") {
+      this.conversionErrors.inc({ error_type: result.errorType ?? "Error" });
+    } else if (result.status === "success" || result.status === "updated") {
+      this.compressionRatio.observe(result.compressionRatio);
+      this.bytesBefore.inc({}, result.originalSize);
+      this.bytesAfter.inc({}, result.convertedSize);
+    }
+  }
+
+  recordS3Request(operation: string, outcome: S3RequestOutcome): void {
+    this.s3Requests.inc({ operation, outcome });
+  }
+
+  render(): string {
+    const memory = process.memoryUsage();
+    this.residentMemory.set(memory.rss);
+    this.heapUsed.set(memory.heapUsed);
+
+    return (
+      [
+        this.conversions,
+        this.conversionErrors,
+        this.processingTime,
+        this.compressionRatio,
+        this.bytesBefore,
+        this.bytesAfter,
+        this.s3Requests,
+        this.queuePending,
+        this.queueProcessing,
+        this.residentMemory,
+        this.heapUsed,
+      ]
+        .flatMap((metric) => metric.render())
+        .join("\n") + "\n"
+    );
+  }
+}
+
+const metrics = new ConversionMetrics();
+
+export default metrics;
@@ -0,0 +1,38 @@
+export interface UploadedFile {
+  buffer: Buffer;
+  contentType?: string | undefined;
+  fileName?: string | undefined;
+}
+
+export function isMultipart(contentType: string | undefined): boolean {
+  return /^multipart\/form-data\b/i.test(contentType ?? "");
+}
+
+/**
+ * Returns the `file` field of a multipart/form-data body, or its first file
+ * when no field has that name. Parsing is left to the fetch API built into
+ * Node, so no multipart dependency is needed.
+ */
+export async function extractMultipartFile(
+  body: Buffer,
+  contentType: string
+): Promise<UploadedFile | undefined> {
+  const formData = await new Request("http://localhost/", {
+    method: "POST",
+    headers: { "Content-Type": contentType },
+    body,
+  }).formData();
+
+  const entries = [formData.get("file"), ...formData.values()];
+  const file = entries.find(
+    (entry): entry is File => entry !== null && typeof entry !== "string"
+  );
+  if (!file) {
+    return undefined;
+  }
+  return {
+    buffer: Buffer.from(await file.arrayBuffer()),
+    contentType: file.type || undefined,
+    fileName: file.name || undefined,
+  };
+}
@@ -0,0 +1,118 @@
+import { ImageProcessingError, S3OperationError } from "./error";
+
+export interface RetryOptions {
+  retryAttempts: number;
+  retryDelay: number;
+  maxDelay?: number;
+  /** Replaces isRetryableError for operations with their own rules */
+  isRetryable?: ((error: unknown) => boolean) | undefined;
+  onRetry?: (error: unknown, attempt: number, delay: number) => void;
+}
+
+const RETRYABLE_S3_CODES = new Set([
+  "SlowDown",
+  "Throttling",
+  "ThrottlingException",
+  "TooManyRequestsException",
+  "RequestTimeout",
+  "RequestTimeoutException",
+  "InternalError",
+  "ServiceUnavailable",
+  "TimeoutError",
+]);
+
+const RETRYABLE_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+]);
+
+/**
+ * Decides whether an error is transient (throttling, 5xx, network)
+ */
+export function isRetryableError(error: unknown): boolean {
+  // Image errors are deterministic, retrying the same bytes gives the same result
+  if (error instanceof ImageProcessingError) {
+    return false;
+  }
+
+  if (error instanceof S3OperationError) {
+    if (error.code && RETRYABLE_S3_CODES.has(error.code)) {
+      return true;
+    }
+    if (error.statusCode !== undefined) {
+      return error.statusCode === 429 || error.statusCode >= 500;
+    }
+    return isRetryableError(error.cause);
+  }
+
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  const { code, $metadata } = error as Error & {
+    code?: string;
+    $metadata?: { httpStatusCode?: number };
+  };
+  if (RETRYABLE_S3_CODES.has(error.name)) {
+    return true;
+  }
+  if (code && RETRYABLE_NETWORK_CODES.has(code)) {
+    return true;
+  }
+  const statusCode = $metadata?.httpStatusCode;
+  if (statusCode !== undefined && (statusCode === 429 || statusCode >= 500)) {
+    return true;
+  }
+
+  return /socket hang up|network/i.test(error.message);
+}
+
+/**
+ * Exponential backoff with jitter: half of the delay is fixed, half random
+ */
+export function getRetryDelay(
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number = 30000
+): number {
+  const exponential = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * Runs an operation, retrying retryable failures up to `retryAttempts` times.
+ * The operation receives the 1-based attempt number.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  let attempt = 0;
+
+  while (true) {
+    attempt++;
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const isRetryable = options.isRetryable ?? isRetryableError;
+      if (attempt > options.retryAttempts || !isRetryable(error)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(
+        attempt,
+        options.retryDelay,
+        options.maxDelay
+      );
+      options.onRetry?.(error, attempt, delay);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,81 @@
+const WINDOW_SIZE = 8;
+const WINDOW_STEP = 4;
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+/**
+ * Mean structural similarity of two 8-bit greyscale images of equal size,
+ * computed over overlapping 8x8 windows. Returns a score between 0 and 1.
+ */
+export function computeSsim(
+  reference: Uint8Array,
+  candidate: Uint8Array,
+  width: number,
+  height: number
+): number {
+  if (reference.length !== candidate.length) {
+    throw new Error("SSIM inputs must have the same dimensions");
+  }
+  if (width < WINDOW_SIZE || height < WINDOW_SIZE) {
+    return computeWindowSsim(reference, candidate, width, 0, 0, width, height);
+  }
+
+  let total = 0;
+  let windows = 0;
+  for (let y = 0; y + WINDOW_SIZE <= height; y += WINDOW_STEP) {
+    for (let x = 0; x + WINDOW_SIZE <= width; x += WINDOW_STEP) {
+      total += computeWindowSsim(
+        reference,
+        candidate,
+        width,
+        x,
+        y,
+        WINDOW_SIZE,
+        WINDOW_SIZE
+      );
+      windows++;
+    }
+  }
+  return total / windows;
+}
+
+function computeWindowSsim(
+  reference: Uint8Array,
+  candidate: Uint8Array,
+  stride: number,
+  left: number,
+  top: number,
+  width: number,
+  height: number
+): number {
+  const count = width * height;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXX = 0;
+  let sumYY = 0;
+  let sumXY = 0;
+
+  for (let y = top; y < top + height; y++) {
+    for (let x = left; x < left + width; x++) {
+      const index = y * stride + x;
+      const a = reference[index]!;
+      const b = candidate[index]!;
+      sumX += a;
+      sumY += b;
+      sumXX += a * a;
+      sumYY += b * b;
+      sumXY += a * b;
+    }
+  }
+
+  const meanX = sumX / count;
+  const meanY = sumY / count;
+  const varianceX = sumXX / count - meanX * meanX;
+  const varianceY = sumYY / count - meanY * meanY;
+  const covariance = sumXY / count - meanX * meanY;
+
+  return (
+    ((2 * meanX * meanY + C1) * (2 * covariance + C2)) /
+    ((meanX * meanX + meanY * meanY + C1) * (varianceX + varianceY + C2))
+  );
+}